@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+  },
+  // Firestore and Firebase Auth are replaced by an in-memory fake
+  moduleNameMapper: {
+    '^(\\.{1,2}/)+config/firebaseAdmin$': '<rootDir>/tests/helpers/fakeFirebaseAdmin.ts',
+  },
+  setupFiles: ['<rootDir>/tests/setupEnv.ts'],
+};
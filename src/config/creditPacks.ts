@@ -0,0 +1,23 @@
+/**
+ * Credit packs users can buy.
+ * Prices are in the currency's minor unit (paise for INR).
+ * GET /api/payments/packs exposes this list to the frontend.
+ */
+export interface CreditPack {
+  id: string;
+  label: string;
+  credits: number;
+  amount: number;
+  currency: string;
+}
+
+export const CREDIT_PACKS: Record<string, CreditPack> = {
+  starter: { id: 'starter', label: 'Starter', credits: 25, amount: 9900, currency: 'INR' },
+  creator: { id: 'creator', label: 'Creator', credits: 100, amount: 34900, currency: 'INR' },
+  studio: { id: 'studio', label: 'Studio', credits: 300, amount: 89900, currency: 'INR' },
+};
+
+export const getCreditPack = (packId: unknown): CreditPack | null =>
+  typeof packId === 'string' && Object.prototype.hasOwnProperty.call(CREDIT_PACKS, packId)
+    ? CREDIT_PACKS[packId]
+    : null;
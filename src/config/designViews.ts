@@ -0,0 +1,13 @@
+/**
+ * Camera views produced by POST /api/generate/multi-view, in render order.
+ * The front view is rendered first and used as the reference for the rest.
+ * Each value completes the sentence "Render the exact same garment ...".
+ */
+export const DESIGN_VIEWS = {
+  front: 'from the front, with the full garment in frame',
+  back: 'from directly behind, showing the full back of the garment',
+  side: 'from the side in a 90-degree profile, with the full garment in frame',
+  detail: 'as a close-up detail shot of the fabric texture, print and embellishment',
+} as const;
+
+export type DesignView = keyof typeof DESIGN_VIEWS;
@@ -19,8 +19,46 @@ interface Config {
   maxGenerationsPerUserPerDay: number;
   adminEmails: string[];
   geminiMaxConcurrent: number;
+  geminiMaxQueueDepth: number;
+  geminiQueueTimeoutMs: number;
+  geminiMaxTasksPerUser: number;
+  geminiImageRpm: number;
+  geminiImageRpd: number;
+  geminiTextRpm: number;
+  geminiTextRpd: number;
+  geminiBudgetMaxWaitMs: number;
+  idempotencyKeyTtlHours: number;
+  creditHoldTtlMs: number;
+  creditHoldSweepIntervalMs: number;
+  creditFailurePolicy: 'open' | 'closed' | 'grace';
+  creditGraceAllowance: number;
+  pendingChargeReconcileIntervalMs: number;
+  paymentProvider: 'fake';
+  paymentWebhookSecret: string;
+  referralRewardCredits: number;
+  creditResetTimezone: string;
+  creditResetHour: number;
+  creditTopUpBatchEnabled: boolean;
+  creditTopUpBatchIntervalMs: number;
+  maxCreditsPerRequest: number;
+  creditRequestAutoApproval: {
+    enabled: boolean;
+    minAccountAgeDays: number;
+    minTotalGenerations: number;
+    monthlyAllowance: number;
+  };
   dailyCreditIncrement: number;
   maxCreditsPerUser: number;
+  imageStorageBackend: 'gcs' | 'local';
+  localImageDir: string;
+  publicBaseUrl: string;
+  signedUrlTtlMinutes: number;
+  imageProvider: 'gemini' | 'stub';
+  geminiRetryAttempts: number;
+  geminiRetryBaseDelayMs: number;
+  geminiRetryMaxDelayMs: number;
+  geminiBreakerThreshold: number;
+  geminiBreakerCooldownMs: number;
 }
 
 const config: Config = {
@@ -38,12 +76,80 @@ const config: Config = {
   maxGenerationsPerUserPerDay: parseInt(process.env.MAX_GENERATIONS_PER_USER_PER_DAY || '10', 10),
   adminEmails: (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim()).filter(Boolean),
   geminiMaxConcurrent: parseInt(process.env.GEMINI_MAX_CONCURRENT || '4', 10),
+  // Waiting tasks beyond this depth are rejected up front; each waits at most the timeout
+  geminiMaxQueueDepth: parseInt(process.env.GEMINI_MAX_QUEUE_DEPTH || '50', 10),
+  geminiQueueTimeoutMs: parseInt(process.env.GEMINI_QUEUE_TIMEOUT_MS || '120000', 10),
+  // Max generations one user may have running + waiting at once
+  geminiMaxTasksPerUser: parseInt(process.env.GEMINI_MAX_TASKS_PER_USER || '4', 10),
+  // Per-model request budgets (requests per minute / per day, day resets at midnight UTC)
+  geminiImageRpm: parseInt(process.env.GEMINI_IMAGE_RPM || '10', 10),
+  geminiImageRpd: parseInt(process.env.GEMINI_IMAGE_RPD || '1000', 10),
+  geminiTextRpm: parseInt(process.env.GEMINI_TEXT_RPM || '100', 10),
+  geminiTextRpd: parseInt(process.env.GEMINI_TEXT_RPD || '10000', 10),
+  // How long a text call may wait for a budget token before giving up
+  geminiBudgetMaxWaitMs: parseInt(process.env.GEMINI_BUDGET_MAX_WAIT_MS || '15000', 10),
+  // How long a stored Idempotency-Key response can be replayed
+  idempotencyKeyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+  // Credit holds not settled within the TTL are released by the sweeper
+  creditHoldTtlMs: parseInt(process.env.CREDIT_HOLD_TTL_MS || '900000', 10),
+  creditHoldSweepIntervalMs: parseInt(process.env.CREDIT_HOLD_SWEEP_INTERVAL_MS || '60000', 10),
+  // What the credit limiter does when Firestore is unavailable: reject the
+  // request ('closed', the default), let every request through ('open'), or
+  // allow each user up to creditGraceAllowance unsettled credits ('grace').
+  // Allowed charges are held in memory and settled once Firestore recovers,
+  // so the grace allowance is per process (N instances allow N times as much)
+  // and charges not yet written are lost if the process restarts.
+  creditFailurePolicy: (['open', 'closed', 'grace'].includes(process.env.CREDIT_FAILURE_POLICY || '')
+    ? process.env.CREDIT_FAILURE_POLICY
+    : 'closed') as 'open' | 'closed' | 'grace',
+  creditGraceAllowance: parseInt(process.env.CREDIT_GRACE_ALLOWANCE || '2', 10),
+  pendingChargeReconcileIntervalMs: parseInt(process.env.PENDING_CHARGE_RECONCILE_INTERVAL_MS || '60000', 10),
+  // Only the local fake provider exists so far, and it is refused in production
+  // (the payment routes aren't mounted there); webhooks are HMAC-signed with the secret
+  paymentProvider: 'fake',
+  paymentWebhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || 'dev-payment-webhook-secret',
+  // Credits granted to both the referrer and the referred user after the referred user's first generation
+  referralRewardCredits: parseInt(process.env.REFERRAL_REWARD_CREDITS || '5', 10),
+  // Daily credits refill at this hour (0-23) in this IANA timezone
+  creditResetTimezone: process.env.CREDIT_RESET_TIMEZONE || 'Asia/Kolkata',
+  creditResetHour: parseInt(process.env.CREDIT_RESET_HOUR || '0', 10),
+  // Optionally pre-apply the top-up to every user instead of only on their next request
+  creditTopUpBatchEnabled: process.env.CREDIT_TOP_UP_BATCH_ENABLED === 'true',
+  creditTopUpBatchIntervalMs: parseInt(process.env.CREDIT_TOP_UP_BATCH_INTERVAL_MS || '3600000', 10),
+  // Most credits a user can ask for in one credit request
+  maxCreditsPerRequest: parseInt(process.env.MAX_CREDITS_PER_REQUEST || '50', 10),
+  // Credit requests are approved without review for accounts at least this old with this many
+  // generations, up to a monthly allowance of auto-approved credits per user
+  creditRequestAutoApproval: {
+    enabled: process.env.CREDIT_REQUEST_AUTO_APPROVE !== 'false',
+    minAccountAgeDays: parseInt(process.env.CREDIT_REQUEST_AUTO_MIN_ACCOUNT_AGE_DAYS || '7', 10),
+    minTotalGenerations: parseInt(process.env.CREDIT_REQUEST_AUTO_MIN_GENERATIONS || '10', 10),
+    monthlyAllowance: parseInt(process.env.CREDIT_REQUEST_AUTO_MONTHLY_ALLOWANCE || '20', 10),
+  },
   dailyCreditIncrement: parseInt(process.env.DAILY_CREDIT_INCREMENT || '10', 10),
   maxCreditsPerUser: parseInt(process.env.MAX_CREDITS_PER_USER || '30', 10),
+  // Defaults to GCS when a bucket is configured, otherwise the local filesystem
+  imageStorageBackend: (process.env.IMAGE_STORAGE_BACKEND
+    || (process.env.GCS_BUCKET_NAME ? 'gcs' : 'local')) as 'gcs' | 'local',
+  localImageDir: path.resolve(process.env.LOCAL_IMAGE_DIR || 'temp/generated-images'),
+  publicBaseUrl: (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, ''),
+  signedUrlTtlMinutes: parseInt(process.env.SIGNED_URL_TTL_MINUTES || '60', 10),
+  // 'stub' renders deterministic placeholder images for offline dev and tests
+  imageProvider: (process.env.IMAGE_PROVIDER === 'stub' ? 'stub' : 'gemini'),
+  // Retries for transient Gemini failures (429 / 5xx / network)
+  geminiRetryAttempts: parseInt(process.env.GEMINI_RETRY_ATTEMPTS || '3', 10),
+  geminiRetryBaseDelayMs: parseInt(process.env.GEMINI_RETRY_BASE_DELAY_MS || '500', 10),
+  geminiRetryMaxDelayMs: parseInt(process.env.GEMINI_RETRY_MAX_DELAY_MS || '8000', 10),
+  // Circuit breaker: open after N consecutive failed calls, for the cool-down period
+  geminiBreakerThreshold: parseInt(process.env.GEMINI_BREAKER_THRESHOLD || '5', 10),
+  geminiBreakerCooldownMs: parseInt(process.env.GEMINI_BREAKER_COOLDOWN_MS || '30000', 10),
 };
 
 // Validate required environment variables
-const requiredEnvVars = ['GEMINI_API_KEY'];
+// (the stub image provider can run without a Gemini key)
+const requiredEnvVars = [
+  ...(config.imageProvider === 'stub' ? [] : ['GEMINI_API_KEY']),
+];
 
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
@@ -53,4 +159,18 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// Validate the daily credit reset time — an unknown timezone would make
+// every credit check throw
+try {
+  new Intl.DateTimeFormat('en-US', { timeZone: config.creditResetTimezone });
+} catch {
+  console.error(`❌ Invalid CREDIT_RESET_TIMEZONE: ${config.creditResetTimezone} (use an IANA name, e.g. Asia/Kolkata)`);
+  process.exit(1);
+}
+
+if (!Number.isInteger(config.creditResetHour) || config.creditResetHour < 0 || config.creditResetHour > 23) {
+  console.error(`❌ Invalid CREDIT_RESET_HOUR: ${process.env.CREDIT_RESET_HOUR} (use a whole hour from 0 to 23)`);
+  process.exit(1);
+}
+
 export default config;
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Named garment regions for region-restricted edits on
+ * POST /api/generate/from-image. Each description is what the model is
+ * told to change; everything outside it must stay untouched.
+ */
+export const GARMENT_REGIONS = {
+  neckline: 'the neckline and collar area',
+  sleeves: 'both sleeves, from shoulder seam to cuff',
+  bodice: 'the bodice / upper torso of the garment',
+  waistline: 'the waistline and waistband',
+  hem: 'the bottom hem of the garment',
+  border: 'the decorative border running along the garment edges',
+  dupatta: 'the dupatta (stole) only',
+  'dupatta-border': 'the border of the dupatta only',
+  pallu: 'the pallu (loose end) of the saree only',
+  'blouse-back': 'the back of the blouse only',
+} as const;
+
+export type GarmentRegion = keyof typeof GARMENT_REGIONS;
+
+export const isGarmentRegion = (value: unknown): value is GarmentRegion =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(GARMENT_REGIONS, value);
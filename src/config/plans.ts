@@ -0,0 +1,74 @@
+import config from './env';
+import { PricedOperation } from './pricing';
+import { QueueLane } from '../services/geminiQueue';
+
+/**
+ * Subscription plans.
+ * A user's plan is stored as userUsage.plan (missing = free) and decides
+ * their daily credit top-up, the balance the top-up fills up to, which
+ * operations they may run, and the Gemini queue lane of their requests.
+ * GET /api/plans exposes this list to the frontend.
+ */
+export type PlanId = 'free' | 'pro' | 'studio';
+
+export interface Plan {
+  id: PlanId;
+  label: string;
+  dailyCreditIncrement: number;
+  maxCredits: number; // the daily top-up never takes the balance above this
+  allowedOperations: PricedOperation[];
+  lane: QueueLane; // lane for interactive requests (background jobs always use 'batch')
+}
+
+export const DEFAULT_PLAN: PlanId = 'free';
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: 'free',
+    label: 'Free',
+    dailyCreditIncrement: config.dailyCreditIncrement,
+    maxCredits: config.maxCreditsPerUser,
+    allowedOperations: ['text-to-image', 'image-to-image', 'region-edit', 'try-on', 'try-on-extra-garment', 'session-turn'],
+    lane: 'interactive',
+  },
+  pro: {
+    id: 'pro',
+    label: 'Pro',
+    dailyCreditIncrement: 30,
+    maxCredits: 100,
+    allowedOperations: [
+      'text-to-image',
+      'image-to-image',
+      'region-edit',
+      'try-on',
+      'try-on-extra-garment',
+      'multi-view',
+      'session-turn',
+    ],
+    lane: 'interactive',
+  },
+  studio: {
+    id: 'studio',
+    label: 'Studio',
+    dailyCreditIncrement: 100,
+    maxCredits: 400,
+    allowedOperations: [
+      'text-to-image',
+      'image-to-image',
+      'region-edit',
+      'try-on',
+      'try-on-extra-garment',
+      'multi-view',
+      'session-turn',
+    ],
+    lane: 'priority',
+  },
+};
+
+export const isPlanId = (value: unknown): value is PlanId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+
+/**
+ * The plan for a stored plan ID, falling back to the default plan.
+ */
+export const getPlan = (planId: unknown): Plan => PLANS[isPlanId(planId) ? planId : DEFAULT_PLAN];
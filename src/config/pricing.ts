@@ -0,0 +1,44 @@
+/**
+ * Credit pricing table.
+ * Maps each billable operation to its credit cost; operations with very
+ * different Gemini costs are priced separately. These are the defaults —
+ * admins can override individual prices at runtime (see services/pricing).
+ * GET /api/pricing exposes the effective table to the frontend.
+ */
+
+export type PricedOperation =
+  | 'text-to-image'
+  | 'image-to-image'
+  | 'region-edit'
+  | 'try-on'
+  | 'try-on-extra-garment'
+  | 'multi-view'
+  | 'session-turn';
+
+export interface OperationPrice {
+  label: string;
+  unit: string; // what one `credits` pays for
+  credits: number;
+}
+
+export const DEFAULT_PRICING: Record<PricedOperation, OperationPrice> = {
+  'text-to-image': { label: 'Text to image', unit: 'image (per variant)', credits: 1 },
+  'image-to-image': { label: 'Image to image', unit: 'image', credits: 1 },
+  'region-edit': { label: 'Region edit (mask or named region)', unit: 'edit', credits: 1 },
+  'try-on': { label: 'Virtual try-on', unit: 'image, first garment included', credits: 1 },
+  'try-on-extra-garment': { label: 'Virtual try-on, additional garment', unit: 'garment', credits: 1 },
+  'multi-view': { label: 'Multi-view design', unit: 'view', credits: 1 },
+  'session-turn': { label: 'Design session refinement', unit: 'turn', credits: 1 },
+};
+
+export const isPricedOperation = (value: unknown): value is PricedOperation =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_PRICING, value);
+
+/**
+ * The lowest price an operation can be set to. Every charged request must
+ * cost at least 1 credit: a free one would settle as a release, so it wouldn't
+ * count as a generation or trigger the referral reward. An extra try-on
+ * garment can be free because the try-on itself is still charged.
+ */
+export const minimumCredits = (operation: PricedOperation): number =>
+  operation === 'try-on-extra-garment' ? 0 : 1;
@@ -0,0 +1,99 @@
+import { StyleId } from '../types';
+
+/**
+ * Style preset registry.
+ * Each preset steers both prompt improvement and final image generation
+ * for the `style` field on the generation routes.
+ * GET /api/styles exposes this list so the frontend doesn't hardcode it.
+ */
+export interface StylePreset {
+  id: StyleId;
+  label: string;
+  description: string;
+  promptFragments: string[];
+  negativeConstraints: string[];
+  lighting: string;
+  background: string;
+}
+
+export const STYLE_PRESETS: Record<StyleId, StylePreset> = {
+  traditional: {
+    id: 'traditional',
+    label: 'Traditional',
+    description: 'Classic Indian ethnic wear with heritage weaves and handcrafted detailing.',
+    promptFragments: [
+      'traditional Indian ethnic design',
+      'heritage handloom weaves',
+      'intricate hand embroidery',
+      'classic silhouettes',
+      'cultural authenticity',
+    ],
+    negativeConstraints: ['no western cuts', 'no synthetic sheen', 'no modern streetwear elements'],
+    lighting: 'warm, soft diffused lighting that brings out fabric texture and zari work',
+    background: 'plain warm-toned studio backdrop',
+  },
+  modern: {
+    id: 'modern',
+    label: 'Modern',
+    description: 'Contemporary, minimal silhouettes with clean lines.',
+    promptFragments: [
+      'contemporary minimalist design',
+      'clean tailored lines',
+      'structured silhouette',
+      'subtle, refined detailing',
+    ],
+    negativeConstraints: ['no heavy embellishment', 'no ornate borders', 'no cluttered patterns'],
+    lighting: 'crisp, even high-key studio lighting',
+    background: 'seamless light grey studio backdrop',
+  },
+  fusion: {
+    id: 'fusion',
+    label: 'Indo-Western Fusion',
+    description: 'Indian craft techniques on western silhouettes.',
+    promptFragments: [
+      'Indo-western fusion design',
+      'traditional Indian motifs on a contemporary silhouette',
+      'balanced mix of ethnic craft and modern tailoring',
+    ],
+    negativeConstraints: ['no fully traditional costume', 'no purely western outfit'],
+    lighting: 'balanced editorial studio lighting with soft shadows',
+    background: 'neutral beige studio backdrop',
+  },
+  bridal: {
+    id: 'bridal',
+    label: 'Bridal',
+    description: 'Opulent wedding wear with rich colours and heavy embellishment.',
+    promptFragments: [
+      'luxurious Indian bridal couture',
+      'rich jewel tones',
+      'heavy zardozi and gota patti embellishment',
+      'ornate borders and dense embroidery',
+    ],
+    negativeConstraints: ['no casual fabrics', 'no plain undecorated surfaces', 'no muted dull colours'],
+    lighting: 'warm glamorous lighting with gentle highlights on embellishments',
+    background: 'soft blurred festive backdrop with warm tones',
+  },
+  casual: {
+    id: 'casual',
+    label: 'Casual',
+    description: 'Comfortable everyday wear in breathable fabrics.',
+    promptFragments: [
+      'comfortable everyday casual wear',
+      'breathable cotton and linen fabrics',
+      'relaxed fit',
+      'simple prints',
+    ],
+    negativeConstraints: ['no heavy embellishment', 'no formal or bridal styling', 'no stiff structured fabrics'],
+    lighting: 'natural daylight-style soft lighting',
+    background: 'clean white studio backdrop',
+  },
+};
+
+export const isStyleId = (value: unknown): value is StyleId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(STYLE_PRESETS, value);
+
+/**
+ * Look up a preset by ID. Returns null for a missing or unknown style.
+ */
+export const getStylePreset = (style?: string | null): StylePreset | null =>
+  isStyleId(style) ? STYLE_PRESETS[style] : null;
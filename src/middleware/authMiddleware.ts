@@ -8,12 +8,43 @@ declare global {
       user?: {
         uid: string;
         email: string;
+        emailVerified: boolean;
         displayName: string;
       };
     }
   }
 }
 
+/**
+ * Verify a Bearer ID token if one is sent and attach req.user; requests
+ * without one (or with an invalid one) continue anonymously.
+ * For public endpoints that return extra detail to signed-in users.
+ */
+export const optionalAuthMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    next();
+    return;
+  }
+
+  try {
+    const decodedToken = await auth.verifyIdToken(authHeader.split('Bearer ')[1]);
+    req.user = {
+      uid: decodedToken.uid,
+      email: decodedToken.email || '',
+      emailVerified: decodedToken.email_verified === true,
+      displayName: decodedToken.name || '',
+    };
+  } catch (error: any) {
+    console.warn('⚠️  Ignoring invalid auth token on public endpoint:', error.message);
+  }
+  next();
+};
+
 /**
  * Middleware to verify Firebase ID tokens.
  * Extracts the Bearer token from the Authorization header,
@@ -43,6 +74,7 @@ export const authMiddleware = async (
     req.user = {
       uid: decodedToken.uid,
       email: decodedToken.email || '',
+      emailVerified: decodedToken.email_verified === true,
       displayName: decodedToken.name || '',
     };
     next();
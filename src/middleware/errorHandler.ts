@@ -4,15 +4,25 @@ import { ErrorResponse } from '../types';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string; // stable machine-readable error code for clients
+  retryAfterSeconds?: number; // sent as a Retry-After header when set
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
+/**
+ * Pass AppErrors through untouched (keeping their status and code);
+ * wrap anything else as a 500 with the given fallback message.
+ */
+export const toAppError = (error: any, fallbackMessage: string): AppError =>
+  error instanceof AppError ? error : new AppError(error?.message || fallbackMessage, 500);
+
 export const errorHandler = (
   err: Error | AppError,
   req: Request,
@@ -21,10 +31,14 @@ export const errorHandler = (
 ) => {
   let statusCode = 500;
   let message = 'Internal Server Error';
+  let code: string | undefined;
+  let retryAfter: number | undefined;
 
   if (err instanceof AppError) {
     statusCode = err.statusCode;
     message = err.message;
+    code = err.code;
+    retryAfter = err.retryAfterSeconds;
   } else if (err.name === 'ValidationError') {
     statusCode = 400;
     message = err.message;
@@ -38,11 +52,17 @@ export const errorHandler = (
     console.error(err.stack);
   }
 
+  if (retryAfter) {
+    res.set('Retry-After', String(retryAfter));
+  }
+
   res.status(statusCode).json({
     success: false,
     error: err.name || 'Error',
     message: message,
     statusCode: statusCode,
+    ...(code && { code }),
+    ...(retryAfter && { retryAfter }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
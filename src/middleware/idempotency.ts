@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import config from '../config/env';
+import { AppError } from './errorHandler';
+import { StreamedEvent, openEventStream, wantsEventStream } from '../utils/sse';
+
+/**
+ * Idempotency-Key support for non-idempotent POST endpoints.
+ *
+ * A client that retries a request (e.g. after a mobile timeout) sends the
+ * same `Idempotency-Key` header. The first request runs normally and its
+ * response is stored; repeats with that key get the stored response
+ * (marked `Idempotent-Replayed: true`) instead of being charged again.
+ * For a streamed (SSE) response the final event is stored, and replayed as
+ * a one-event stream, or as JSON if the retry doesn't ask for a stream.
+ *
+ * Firestore: idempotencyKeys/{sha256(uid:key)}
+ *   { userId, key, requestHash, status: 'in_progress' | 'completed',
+ *     statusCode?, responseBody?, streamEvent?, createdAt, expiresAt }
+ *
+ * - Repeat while the first is still running → 409 IDEMPOTENCY_IN_PROGRESS
+ * - Same key, different method/path/body    → 422 IDEMPOTENCY_KEY_REUSED
+ * - Transient outcomes (429, 499, 5xx) are not stored, so the key can be retried
+ * - Requests without the header are not affected
+ *
+ * Must run AFTER authMiddleware (keys are scoped per user) and BEFORE the
+ * credit limiter.
+ */
+
+const MAX_KEY_LENGTH = 255;
+
+// An in-progress record older than this belongs to a request that died mid-flight
+const STALE_IN_PROGRESS_MS = 10 * 60 * 1000;
+
+interface IdempotencyRecord {
+  userId: string;
+  key: string;
+  requestHash: string;
+  status: 'in_progress' | 'completed';
+  statusCode?: number;
+  responseBody?: unknown;
+  streamEvent?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+// Outcomes worth retrying with the same key: rate limits, cancellations, server errors
+const isTransientStatus = (statusCode: number): boolean =>
+  statusCode === 429 || statusCode === 499 || statusCode >= 500;
+
+export const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get('Idempotency-Key');
+  const uid = req.user?.uid;
+  if (!key || !uid) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    next(new AppError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, 400));
+    return;
+  }
+
+  const ref = db.collection('idempotencyKeys').doc(sha256(`${uid}:${key}`));
+  const requestHash = sha256(JSON.stringify({ method: req.method, path: req.originalUrl, body: req.body ?? null }));
+
+  let existing: IdempotencyRecord | null;
+  try {
+    existing = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const record = doc.exists ? (doc.data() as IdempotencyRecord) : null;
+      const now = Date.now();
+
+      const isLive = record
+        && new Date(record.expiresAt).getTime() > now
+        && !(record.status === 'in_progress' && now - new Date(record.createdAt).getTime() > STALE_IN_PROGRESS_MS);
+      if (record && isLive) {
+        return record;
+      }
+
+      const fresh: IdempotencyRecord = {
+        userId: uid,
+        key,
+        requestHash,
+        status: 'in_progress',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + config.idempotencyKeyTtlHours * 60 * 60 * 1000).toISOString(),
+      };
+      transaction.set(ref, fresh);
+      return null;
+    });
+  } catch (error: any) {
+    next(new AppError(`Failed to check Idempotency-Key: ${error.message}`, 500));
+    return;
+  }
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      next(new AppError('This Idempotency-Key was already used with a different request', 422, 'IDEMPOTENCY_KEY_REUSED'));
+      return;
+    }
+
+    if (existing.status === 'in_progress') {
+      const error = new AppError('A request with this Idempotency-Key is still in progress', 409, 'IDEMPOTENCY_IN_PROGRESS');
+      error.retryAfterSeconds = 5;
+      next(error);
+      return;
+    }
+
+    console.log(`♻️  Replaying idempotent response for ${req.method} ${req.originalUrl} (user ${uid})`);
+    res.set('Idempotent-Replayed', 'true');
+    if (existing.responseBody === undefined || existing.responseBody === null) {
+      // Nothing was captured from the original response, so there is nothing to replay
+      next(new AppError('The request with this Idempotency-Key already completed', 409, 'IDEMPOTENCY_KEY_USED'));
+      return;
+    }
+    if (existing.streamEvent && wantsEventStream(req)) {
+      const stream = openEventStream(res);
+      stream.send(existing.streamEvent, existing.responseBody);
+      stream.close();
+      return;
+    }
+    res.status(existing.statusCode || 200).json(existing.responseBody);
+    return;
+  }
+
+  // Capture the outcome when the handler responds (even if the client already left)
+  let responseBody: unknown;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  let recorded = false;
+  const originalEnd = res.end.bind(res) as (...args: any[]) => Response;
+  res.end = ((...args: any[]) => {
+    if (!recorded) {
+      recorded = true;
+      // A stream always answers 200; its outcome is the final event (an error event carries its own status)
+      const lastEvent: StreamedEvent | undefined = responseBody === undefined ? res.locals.lastEvent : undefined;
+      const body = lastEvent ? lastEvent.data : responseBody;
+      const eventStatus = (lastEvent?.data as { statusCode?: unknown } | undefined)?.statusCode;
+      const statusCode = typeof eventStatus === 'number' ? eventStatus : res.statusCode;
+      const write = isTransientStatus(statusCode)
+        ? ref.delete()
+        : ref.update({
+            status: 'completed',
+            statusCode,
+            responseBody: body === undefined ? null : JSON.parse(JSON.stringify(body)),
+            ...(lastEvent && { streamEvent: lastEvent.event }),
+          });
+      write.catch((error: any) => console.error('❌ Error saving idempotency record:', error.message));
+    }
+    return originalEnd(...args);
+  }) as Response['end'];
+
+  next();
+};
@@ -1,8 +1,14 @@
 import rateLimit from 'express-rate-limit';
 import { Request, Response, NextFunction } from 'express';
-import { db } from '../config/firebaseAdmin';
-import admin from '../config/firebaseAdmin';
 import config from '../config/env';
+import creditHolds from '../services/creditHolds';
+import pendingCharges from '../services/pendingCharges';
+import pricing, { CreditQuote } from '../services/pricing';
+import referrals from '../services/referrals';
+import { nextRefreshAt } from '../services/creditTopUp';
+import { PricedOperation } from '../config/pricing';
+import { getPlan } from '../config/plans';
+import { AppError } from './errorHandler';
 
 // General API rate limiter (IP-based, secondary defense)
 export const apiLimiter = rateLimit({
@@ -34,19 +40,32 @@ export const speechLimiter = rateLimit({
 
 /**
  * Per-user credit-based generation limiter using Firestore.
- * Uses a Firestore transaction to atomically check AND deduct 1 credit,
- * preventing race conditions when the same user sends concurrent requests.
+ * Places a credit hold for the request's cost: a Firestore transaction
+ * atomically checks the balance and moves the cost from `credits` to
+ * `heldCredits`, preventing race conditions when the same user sends
+ * concurrent requests.
  *
  * Flow:
- *   1. Begin transaction → read userUsage doc
- *   2. If doc doesn't exist → create with 0 credits, abort (no credits)
- *   3. If credits <= 0 → abort (no credits)
- *   4. Deduct 1 credit + increment totalGenerations → commit
+ *   1. Quote the request from the pricing table (getQuote may throw
+ *      AppError to reject it)
+ *   2. Apply the daily top-up if due and place the hold, in one transaction
+ *      (see creditHolds.place) → 403 if the user's plan
+ *      doesn't include the operation, 429 if credits < cost
+ *   3. The route settles the hold once the outcome is known:
+ *      commitRequestCredit on success, releaseRequestCredit on failure,
+ *      settleRequestCredit when only part of the work succeeded
  *
- * Because the check and deduction happen inside a single transaction,
- * two simultaneous requests can never both succeed on the last credit.
+ * A hold the route never settles (crash, restart) expires and is released
+ * by the sweeper. The charged amount is attached as req.creditsCharged, the
+ * hold as req.creditHoldId and the user's plan as req.plan.
+ *
+ * If the transaction itself fails (Firestore unavailable), config.creditFailurePolicy
+ * decides: 'closed' (the default) rejects with 503, 'open' lets the request
+ * through, 'grace' lets it through while the user's unsettled credits on this
+ * instance stay within creditGraceAllowance. A request let through is recorded as a pending charge
+ * (req.pendingChargeId) and settled by the reconciler later.
  */
-export const userCreditLimiter = async (
+export const createCreditLimiter = (getQuote: (req: Request) => CreditQuote | Promise<CreditQuote>) => async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -63,77 +82,123 @@ export const userCreditLimiter = async (
     return;
   }
 
+  let quote: CreditQuote;
   try {
-    const usageRef = db.collection('userUsage').doc(uid);
-
-    const result = await db.runTransaction(async (transaction) => {
-      const usageDoc = await transaction.get(usageRef);
-
-      if (!usageDoc.exists) {
-        // First-time user — create doc with 0 credits
-        transaction.set(usageRef, {
-          credits: 0,
-          totalGenerations: 0,
-          email: req.user?.email || '',
-          displayName: req.user?.displayName || '',
-          createdAt: new Date().toISOString(),
-        });
-        return { success: false as const, credits: 0 };
-      }
-
-      const data = usageDoc.data()!;
-      const currentCredits = data.credits ?? 0;
-
-      if (currentCredits <= 0) {
-        return { success: false as const, credits: 0 };
-      }
-
-      // Atomically deduct 1 credit and increment generation count
-      const newCredits = currentCredits - 1;
-      transaction.update(usageRef, {
-        credits: newCredits,
-        totalGenerations: (data.totalGenerations || 0) + 1,
-      });
+    quote = await getQuote(req);
+  } catch (error) {
+    next(error);
+    return;
+  }
+  const cost = quote.credits;
 
-      return { success: true as const, credits: newCredits };
-    });
+  try {
+    const result = await creditHolds.place(
+      { uid, email: req.user?.email, displayName: req.user?.displayName },
+      cost,
+      quote.operation
+    );
+    (req as any).plan = result.plan;
+
+    if (!result.success && result.reason === 'operation-not-in-plan') {
+      next(new AppError(
+        `Your ${getPlan(result.plan).label} plan does not include ${quote.operation}. Please upgrade your plan.`,
+        403,
+        'PLAN_UPGRADE_REQUIRED'
+      ));
+      return;
+    }
 
     if (!result.success) {
       res.status(429).json({
         success: false,
         error: 'No Credits',
-        message: 'You have no generation credits remaining. Please request more credits to continue.',
+        message: result.credits > 0
+          ? `This request needs ${cost} credits but you have ${result.credits}. Please request more credits to continue.`
+          : 'You have no generation credits remaining. Please request more credits to continue.',
         statusCode: 429,
-        credits: 0,
+        credits: result.credits,
+        nextRefreshAt: nextRefreshAt(),
       });
       return;
     }
 
     // Attach remaining credits to request for use in response
     (req as any).currentCredits = result.credits;
+    (req as any).creditsCharged = cost;
+    (req as any).creditHoldId = result.holdId;
     next();
   } catch (error: any) {
     console.error('❌ Error in credit transaction:', error.message);
-    // On Firestore error, allow the request (fail open)
-    (req as any).currentCredits = -1;
+
+    const policy = config.creditFailurePolicy;
+    const withinGrace = pendingCharges.unsettledCredits(uid) + cost <= config.creditGraceAllowance;
+    if (policy === 'closed' || (policy === 'grace' && !withinGrace)) {
+      const unavailable = new AppError(
+        'Credits are temporarily unavailable. Please try again shortly.',
+        503,
+        'CREDITS_UNAVAILABLE'
+      );
+      unavailable.retryAfterSeconds = 30;
+      next(unavailable);
+      return;
+    }
+
+    // Allow the request; the balance is unknown until the charge is settled
+    (req as any).currentCredits = undefined;
+    (req as any).creditsCharged = cost;
+    (req as any).pendingChargeId = pendingCharges.record(uid, cost);
     next();
   }
 };
 
 /**
- * Refund 1 credit to a user after a failed generation.
- * Uses FieldValue.increment for atomicity — safe even during concurrent operations.
- * Also decrements totalGenerations since the generation didn't complete.
+ * Limiter for a single unit of a priced operation.
  */
-export const refundUserCredit = async (uid: string): Promise<void> => {
-  try {
-    const usageRef = db.collection('userUsage').doc(uid);
-    await usageRef.update({
-      credits: admin.firestore.FieldValue.increment(1),
-      totalGenerations: admin.firestore.FieldValue.increment(-1),
-    });
-    console.log(`🔄 Refunded 1 credit to user ${uid} (generation failed)`);
-  } catch (error: any) {
-    console.error(`❌ Error refunding credit for ${uid}:`, error.message);
-  }
-};
\ No newline at end of file
+export const pricedCreditLimiter = (operation: PricedOperation) =>
+  createCreditLimiter(() => pricing.quote(operation));
+
+/**
+ * Consume the credits held for this request (the work succeeded).
+ */
+export const commitRequestCredit = async (req: Request): Promise<void> =>
+  settleRequestCredit(req, (req as any).creditsCharged ?? 0);
+
+/**
+ * Consume `consumed` of the credits held for this request and return the
+ * rest, e.g. when only some variants succeeded. `generations` is how many
+ * images were produced (one by default). Anything consumed counts as a
+ * successful generation for referral rewards.
+ */
+export const settleRequestCredit = async (
+  req: Request,
+  consumed: number,
+  generations: number = consumed > 0 ? 1 : 0
+): Promise<void> => {
+  const holdId = (req as any).creditHoldId;
+  const pendingChargeId = (req as any).pendingChargeId;
+  if (holdId) await creditHolds.settle(holdId, consumed, generations);
+  if (pendingChargeId) pendingCharges.settle(pendingChargeId, consumed, generations);
+  if (consumed > 0 && req.user) void referrals.onSuccessfulGeneration(req.user.uid);
+};
+
+/**
+ * Return the credits held for this request (the work failed or was rejected).
+ */
+export const releaseRequestCredit = async (req: Request): Promise<void> => {
+  const holdId = (req as any).creditHoldId;
+  const pendingChargeId = (req as any).pendingChargeId;
+  if (pendingChargeId) pendingCharges.settle(pendingChargeId, 0);
+  if (!holdId) return;
+  await creditHolds.release(holdId);
+  console.log(`🔄 Released credit hold for user ${req.user?.uid} (generation failed)`);
+};
+
+/**
+ * Credits left after this request, for the response. Undefined (omitted
+ * from the JSON) when the balance is unknown because the charge is pending.
+ * `returned` is what was given back for failed parts of the request.
+ */
+export const creditsRemaining = (req: Request, returned: number = 0): number | undefined => {
+  const current = (req as any).currentCredits;
+  return current === undefined ? undefined : current + returned;
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { geminiBreaker, CircuitOpenError } from '../services/resilience';
+import { imageBudget } from '../services/rateBudget';
+import geminiQueue from '../services/geminiQueue';
+
+/**
+ * Fail fast while the Gemini circuit breaker is open or the daily image
+ * budget is used up (503 with a Retry-After header), or when the user
+ * already has the maximum number of generations queued (429).
+ * Mount after authMiddleware and before the credit limiter, so no credit
+ * is deducted for a request that could not be served.
+ */
+export const geminiAvailabilityGuard = (req: Request, res: Response, next: NextFunction): void => {
+  if (geminiBreaker.isOpen()) {
+    next(new CircuitOpenError(geminiBreaker.name, geminiBreaker.getRetryAfterSeconds()));
+    return;
+  }
+
+  if (imageBudget.isExhaustedForDay()) {
+    next(imageBudget.exhaustedError());
+    return;
+  }
+
+  if (req.user && geminiQueue.isOwnerAtLimit(req.user.uid)) {
+    next(geminiQueue.ownerLimitError());
+    return;
+  }
+
+  next();
+};
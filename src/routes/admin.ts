@@ -3,7 +3,13 @@ import { authMiddleware } from '../middleware/authMiddleware';
 import { adminMiddleware } from '../middleware/adminMiddleware';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import { db, auth } from '../config/firebaseAdmin';
-import admin from '../config/firebaseAdmin';
+import creditLedger from '../services/creditLedger';
+import { newUsageDoc } from '../services/creditTopUp';
+import pricing from '../services/pricing';
+import { PricedOperation, isPricedOperation, minimumCredits } from '../config/pricing';
+import { DEFAULT_PLAN, PLANS, isPlanId } from '../config/plans';
+import creditRequests from '../services/creditRequests';
+import promoCodes, { PromoCodeSettings, normalizeCode, isValidCodeFormat } from '../services/promoCodes';
 
 const router = Router();
 
@@ -92,6 +98,7 @@ router.get(
     const snap = await db.collection('userUsage').get();
     const usage = snap.docs.map((doc) => ({
       uid: doc.id,
+      plan: DEFAULT_PLAN,
       ...doc.data(),
     }));
     res.json({ success: true, usage, total: usage.length });
@@ -100,7 +107,7 @@ router.get(
 
 /**
  * PUT /api/admin/usage/:uid/credits
- * Set credits for a user
+ * Set credits for a user (recorded in their credit ledger as an adjustment)
  * Body: { credits: number }
  */
 router.put(
@@ -111,25 +118,100 @@ router.put(
       throw new AppError('credits must be a non-negative number', 400);
     }
 
-    const ref = db.collection('userUsage').doc(req.params.uid);
-    const doc = await ref.get();
+    const uid = req.params.uid;
+    const ref = db.collection('userUsage').doc(uid);
 
-    if (doc.exists) {
-      await ref.update({ credits });
-    } else {
-      await ref.set({
-        credits,
-        totalGenerations: 0,
-        email: '',
-        createdAt: new Date().toISOString(),
+    await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+      const delta = credits - (data?.credits ?? 0);
+
+      // A new user is marked as topped up today, so the daily top-up isn't added to the grant
+      const updates: Record<string, any> = doc.exists ? { credits } : newUsageDoc('', credits);
+
+      if (delta === 0) {
+        if (!doc.exists) transaction.set(ref, updates);
+        return;
+      }
+
+      creditLedger.applyChange(transaction, uid, data, updates, {
+        delta,
+        reason: 'admin-adjustment',
+        relatedId: null,
+        actor: req.user?.email || 'admin',
+        balanceAfter: credits,
       });
-    }
+    });
 
     console.log(`💰 Admin ${req.user?.email} set credits for ${req.params.uid} → ${credits}`);
     res.json({ success: true, uid: req.params.uid, credits });
   })
 );
 
+/**
+ * PUT /api/admin/usage/:uid/plan
+ * Change a user's plan. Every change is recorded in
+ * userUsage/{uid}/planChanges with the admin and reason.
+ * Body: { plan: 'free' | 'pro' | 'studio', reason?: string }
+ */
+router.put(
+  '/usage/:uid/plan',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { plan, reason } = req.body;
+    if (!isPlanId(plan)) {
+      throw new AppError(`plan must be one of: ${Object.keys(PLANS).join(', ')}`, 400);
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new AppError('reason must be a string', 400);
+    }
+
+    const uid = req.params.uid;
+    const ref = db.collection('userUsage').doc(uid);
+
+    const previousPlan = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new AppError('User usage not found', 404);
+      }
+
+      const fromPlan = doc.data()!.plan || DEFAULT_PLAN;
+      if (fromPlan === plan) return fromPlan;
+
+      transaction.update(ref, { plan });
+      transaction.set(ref.collection('planChanges').doc(), {
+        fromPlan,
+        toPlan: plan,
+        changedBy: req.user?.email || 'admin',
+        reason: reason?.trim() || null,
+        createdAt: new Date().toISOString(),
+      });
+      return fromPlan;
+    });
+
+    console.log(`📦 Admin ${req.user?.email} changed plan for ${uid}: ${previousPlan} → ${plan}`);
+    res.json({ success: true, uid, plan, previousPlan });
+  })
+);
+
+/**
+ * GET /api/admin/usage/:uid/plan-history
+ * A user's plan changes, newest first
+ */
+router.get(
+  '/usage/:uid/plan-history',
+  asyncHandler(async (req: Request, res: Response) => {
+    const snap = await db
+      .collection('userUsage')
+      .doc(req.params.uid)
+      .collection('planChanges')
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    const changes = snap.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+    res.json({ success: true, changes, total: changes.length });
+  })
+);
+
 // ============================================
 // Generation Requests Log
 // ============================================
@@ -159,9 +241,16 @@ router.get(
         improvedPrompt: data.improvedPrompt,
         language: data.language,
         style: data.style,
+        designSpec: data.designSpec || null,
         inputImageProvided: data.inputImageProvided,
+        editArea: data.editArea || null,
+        imageId: data.imageId || null,
+        imageIds: data.imageIds || null,
+        designId: data.designId || null,
+        view: data.view || null,
         generationTimeMs: data.generationTimeMs,
         success: data.success,
+        errorCode: data.errorCode || null,
         timestamp: data.timestamp?.toDate?.()?.toISOString() || null,
       };
     });
@@ -196,6 +285,8 @@ router.get(
         requestedCredits: data.requestedCredits || 0,
         approvedCredits: data.approvedCredits,
         status: data.status,
+        autoApproved: data.autoApproved === true,
+        reviewedBy: data.reviewedBy || null,
         createdAt: data.createdAt?.toDate?.()?.toISOString() || null,
       };
     });
@@ -208,7 +299,9 @@ router.get(
  * PUT /api/admin/credit-requests/:id
  * Approve or deny a credit request
  * Body: { status: 'approved' | 'denied', credits?: number }
- * If approved with credits, also adds credits to the user's userUsage doc.
+ * credits is required when approving and is added to the user's balance.
+ * The status change, balance change, ledger entry and the user's
+ * notification commit together; only pending requests can be decided.
  */
 router.put(
   '/credit-requests/:id',
@@ -217,47 +310,242 @@ router.put(
     if (!['approved', 'denied'].includes(status)) {
       throw new AppError('status must be "approved" or "denied"', 400);
     }
+    if (status === 'approved' && (!Number.isInteger(credits) || credits < 1)) {
+      throw new AppError('credits (a whole number of at least 1) is required when approving', 400);
+    }
 
-    const reqRef = db.collection('creditRequests').doc(req.params.id);
-    const reqDoc = await reqRef.get();
+    const decision = await creditRequests.decide(req.params.id, status, credits ?? 0, req.user?.email || 'admin');
 
-    if (!reqDoc.exists) {
-      throw new AppError('Credit request not found', 404);
-    }
+    console.log(`📩 Admin ${req.user?.email} ${status} credit request ${req.params.id}${decision.credits ? ` (+${decision.credits} credits)` : ''}`);
+    res.json({ success: true, message: `Request ${status}`, credits: decision.credits });
+  })
+);
 
-    const data = reqDoc.data()!;
+// ============================================
+// Credit Ledger
+// ============================================
 
-    // Update request status
-    await reqRef.update({
-      status,
-      approvedCredits: status === 'approved' ? (credits || 0) : 0,
-      reviewedBy: req.user?.email,
-      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+/**
+ * GET /api/admin/credit-ledger/mismatches
+ * Users whose credit balance differs from the sum of their ledger entries.
+ * Users whose balance hasn't changed since the ledger was introduced have
+ * no entries yet; they are counted as untracked, not flagged.
+ */
+router.get(
+  '/credit-ledger/mismatches',
+  asyncHandler(async (req: Request, res: Response) => {
+    const snap = await db.collection('userUsage').get();
+
+    const mismatches: { uid: string; email: string; credits: number; ledgerSum: number; difference: number }[] = [];
+    let untrackedUsers = 0;
+
+    for (const doc of snap.docs) {
+      const data = doc.data();
+      if (!data.ledgerStarted) {
+        untrackedUsers++;
+        continue;
+      }
+
+      const credits = data.credits ?? 0;
+      const ledgerSum = await creditLedger.sum(doc.id);
+      if (ledgerSum !== credits) {
+        mismatches.push({ uid: doc.id, email: data.email || '', credits, ledgerSum, difference: credits - ledgerSum });
+      }
+    }
+
+    res.json({
+      success: true,
+      mismatches,
+      total: mismatches.length,
+      checkedUsers: snap.size - untrackedUsers,
+      untrackedUsers,
     });
+  })
+);
+
+// ============================================
+// Promo Codes
+// ============================================
 
-    // If approved with credits, atomically add to user's balance
-    // Uses FieldValue.increment() to avoid race conditions with concurrent generations
-    if (status === 'approved' && typeof credits === 'number' && credits > 0) {
-      const usageRef = db.collection('userUsage').doc(data.userId);
-      const usageDoc = await usageRef.get();
-
-      if (usageDoc.exists) {
-        await usageRef.update({
-          credits: admin.firestore.FieldValue.increment(credits),
-        });
-      } else {
-        await usageRef.set({
-          credits,
-          totalGenerations: 0,
-          email: data.email || '',
-          displayName: '',
-          createdAt: new Date().toISOString(),
-        });
+/**
+ * Validate promo code settings from a request body. With `partial`, only
+ * the fields present are validated and returned. Throws AppError(400).
+ */
+const parsePromoCodeSettings = (body: any, partial: boolean): Partial<PromoCodeSettings> => {
+  const settings: Partial<PromoCodeSettings> = {};
+
+  if (!partial || body.credits !== undefined) {
+    if (!Number.isInteger(body.credits) || body.credits <= 0) {
+      throw new AppError('credits must be a positive integer', 400);
+    }
+    settings.credits = body.credits;
+  }
+  if (!partial || body.maxRedemptions !== undefined) {
+    const max = body.maxRedemptions ?? null;
+    if (max !== null && (!Number.isInteger(max) || max <= 0)) {
+      throw new AppError('maxRedemptions must be a positive integer or null', 400);
+    }
+    settings.maxRedemptions = max;
+  }
+  if (!partial || body.perUserLimit !== undefined) {
+    const limit = body.perUserLimit ?? 1;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new AppError('perUserLimit must be a positive integer', 400);
+    }
+    settings.perUserLimit = limit;
+  }
+  if (!partial || body.expiresAt !== undefined) {
+    const expiresAt = body.expiresAt ?? null;
+    if (expiresAt !== null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)))) {
+      throw new AppError('expiresAt must be an ISO date or null', 400);
+    }
+    settings.expiresAt = expiresAt && new Date(expiresAt).toISOString();
+  }
+  if (!partial || body.emailDomain !== undefined) {
+    const domain = body.emailDomain ?? null;
+    if (domain !== null && (typeof domain !== 'string' || !/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(domain.replace(/^@/, '')))) {
+      throw new AppError('emailDomain must be a domain like "example.edu" or null', 400);
+    }
+    settings.emailDomain = domain && domain.replace(/^@/, '').toLowerCase();
+  }
+
+  return settings;
+};
+
+/**
+ * POST /api/admin/promo-codes
+ * Create a promo code
+ * Body: { code, credits, maxRedemptions?: number | null, perUserLimit?: number (default 1),
+ *         expiresAt?: ISO date | null, emailDomain?: string | null }
+ */
+router.post(
+  '/promo-codes',
+  asyncHandler(async (req: Request, res: Response) => {
+    const code = normalizeCode(req.body.code);
+    if (!isValidCodeFormat(code)) {
+      throw new AppError('code must be 3-32 letters, digits or dashes', 400);
+    }
+    if ((await db.collection('referralCodes').doc(code).get()).exists) {
+      throw new AppError(`${code} is already a referral code`, 409);
+    }
+
+    const settings = parsePromoCodeSettings(req.body, false) as PromoCodeSettings;
+    const promo = await promoCodes.create(code, settings, req.user?.email || 'admin');
+
+    console.log(`🎟️ Admin ${req.user?.email} created promo code ${code} (${settings.credits} credits)`);
+    res.status(201).json({ success: true, promoCode: promo });
+  })
+);
+
+/**
+ * GET /api/admin/promo-codes
+ * List all promo codes, newest first
+ */
+router.get(
+  '/promo-codes',
+  asyncHandler(async (req: Request, res: Response) => {
+    const codes = await promoCodes.list();
+    res.json({ success: true, promoCodes: codes, total: codes.length });
+  })
+);
+
+/**
+ * GET /api/admin/promo-codes/:code
+ * Get a promo code and who redeemed it
+ */
+router.get(
+  '/promo-codes/:code',
+  asyncHandler(async (req: Request, res: Response) => {
+    const code = normalizeCode(req.params.code);
+    const promo = await promoCodes.get(code);
+    if (!promo) {
+      throw new AppError('Promo code not found', 404);
+    }
+
+    const redemptions = await promoCodes.listRedemptions(code);
+    res.json({ success: true, promoCode: promo, redemptions });
+  })
+);
+
+/**
+ * PUT /api/admin/promo-codes/:code
+ * Update a promo code's settings, or (de)activate it
+ * Body: any of { credits, maxRedemptions, perUserLimit, expiresAt, emailDomain, active }
+ */
+router.put(
+  '/promo-codes/:code',
+  asyncHandler(async (req: Request, res: Response) => {
+    const changes: Record<string, any> = parsePromoCodeSettings(req.body, true);
+    if (req.body.active !== undefined) {
+      if (typeof req.body.active !== 'boolean') {
+        throw new AppError('active must be a boolean', 400);
+      }
+      changes.active = req.body.active;
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new AppError('Nothing to update', 400);
+    }
+
+    const promo = await promoCodes.update(normalizeCode(req.params.code), changes);
+    if (!promo) {
+      throw new AppError('Promo code not found', 404);
+    }
+
+    console.log(`🎟️ Admin ${req.user?.email} updated promo code ${promo.code}:`, changes);
+    res.json({ success: true, promoCode: promo });
+  })
+);
+
+/**
+ * DELETE /api/admin/promo-codes/:code
+ * Deactivate a promo code (kept for its redemption history)
+ */
+router.delete(
+  '/promo-codes/:code',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promo = await promoCodes.update(normalizeCode(req.params.code), { active: false });
+    if (!promo) {
+      throw new AppError('Promo code not found', 404);
+    }
+
+    console.log(`🎟️ Admin ${req.user?.email} deactivated promo code ${promo.code}`);
+    res.json({ success: true, promoCode: promo });
+  })
+);
+
+// ============================================
+// Pricing
+// ============================================
+
+/**
+ * PUT /api/admin/pricing
+ * Override the credit cost of one or more operations
+ * Body: { credits: { [operation]: number } }   e.g. { credits: { "try-on": 2 } }
+ * Costs must be at least 1 (an extra try-on garment may be free)
+ */
+router.put(
+  '/pricing',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { credits } = req.body;
+
+    if (!credits || typeof credits !== 'object' || Array.isArray(credits) || Object.keys(credits).length === 0) {
+      throw new AppError('credits must be an object mapping operations to credit costs', 400);
+    }
+
+    const overrides: Partial<Record<PricedOperation, number>> = {};
+    for (const [operation, cost] of Object.entries(credits)) {
+      if (!isPricedOperation(operation)) {
+        throw new AppError(`Unknown operation "${operation}"`, 400);
+      }
+      if (!Number.isInteger(cost) || (cost as number) < minimumCredits(operation)) {
+        throw new AppError(`Cost for "${operation}" must be an integer of at least ${minimumCredits(operation)}`, 400);
       }
+      overrides[operation] = cost as number;
     }
 
-    console.log(`📩 Admin ${req.user?.email} ${status} credit request ${req.params.id}${credits ? ` (+${credits} credits)` : ''}`);
-    res.json({ success: true, message: `Request ${status}`, credits: credits || 0 });
+    const table = await pricing.update(overrides, req.user?.email || '');
+    console.log(`💲 Admin ${req.user?.email} updated pricing:`, overrides);
+    res.json({ success: true, pricing: table });
   })
 );
 
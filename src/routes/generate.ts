@@ -1,48 +1,88 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import geminiService from '../services/gemini';
 import speechToTextService from '../services/speechToText';
 import { 
   GenerateImageRequest, 
   GenerateImageResponse,
+  GenerationJobAcceptedResponse,
+  GenerationJobStatusResponse,
+  DesignSpec,
   SpeechToTextRequest,
   SpeechToTextResponse,
   HealthCheckResponse 
 } from '../types';
-import { asyncHandler, AppError } from '../middleware/errorHandler';
-import { speechLimiter, userCreditLimiter, refundUserCredit } from '../middleware/rateLimiter';
-import { authMiddleware } from '../middleware/authMiddleware';
+import { asyncHandler, AppError, toAppError } from '../middleware/errorHandler';
+import {
+  speechLimiter,
+  createCreditLimiter,
+  commitRequestCredit,
+  settleRequestCredit,
+  releaseRequestCredit,
+  creditsRemaining,
+} from '../middleware/rateLimiter';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/authMiddleware';
+import { geminiAvailabilityGuard } from '../middleware/upstreamGuard';
+import { idempotency } from '../middleware/idempotency';
+import { geminiBreaker } from '../services/resilience';
+import { imageBudget, textBudget } from '../services/rateBudget';
 import { db } from '../config/firebaseAdmin';
 import admin from '../config/firebaseAdmin';
 import geminiQueue from '../services/geminiQueue';
+import imageStorage, { LoadedImage } from '../services/imageStorage';
+import generationJobs from '../services/generationJobs';
+import creditLedger from '../services/creditLedger';
+import pricing, { CreditQuote } from '../services/pricing';
+import promoCodes, { normalizeCode } from '../services/promoCodes';
+import referrals from '../services/referrals';
+import creditRequests from '../services/creditRequests';
+import notifications from '../services/notifications';
+import { runTextToImage, runTextToImageVariants, persistGeneratedImage } from '../services/generationPipeline';
 import config from '../config/env';
+import { openEventStream, wantsEventStream } from '../utils/sse';
+import { interactiveQueueOptions, laneForRequest } from '../utils/queueOptions';
+import { QueueLane } from '../services/geminiQueue';
+import { STYLE_PRESETS, getStylePreset, isStyleId } from '../config/stylePresets';
+import { PLANS, DEFAULT_PLAN, getPlan } from '../config/plans';
+import creditTopUp, { nextRefreshAt } from '../services/creditTopUp';
+import { validateDesignSpec, compileDesignSpec } from '../services/designSpec';
+import { storeUserRequestData, userOwnsImage } from '../services/userRequests';
+import { GARMENT_REGIONS, GarmentRegion, isGarmentRegion } from '../config/garmentRegions';
+import { getImageDimensions, parseDataUrl, toDataUrl } from '../utils/imageData';
+import { DESIGN_VIEWS, DesignView } from '../config/designViews';
 
 const router = Router();
 
-// ============================================
-// Helper: Store user request data in Firestore
-// ============================================
-const storeUserRequestData = async (data: {
-  userId: string;
-  email: string;
-  type: 'text-to-image' | 'image-to-image';
-  prompt: string;
-  improvedPrompt: string;
+// Validated text-to-image request shared by the sync, async and streaming modes
+interface TextToImageRequest {
+  prompt: string; // free-text prompt, or the prompt compiled from designSpec
   language: string;
   style: string | null;
-  inputImageProvided: boolean;
-  generationTimeMs: number;
-  success: boolean;
-}) => {
-  try {
-    await db.collection('userRequests').add({
-      ...data,
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-    });
-  } catch (error: any) {
-    console.error('❌ Error storing user request data:', error.message);
-    // Non-blocking — don't fail the response
-  }
-};
+  designSpec: DesignSpec | null;
+}
+
+// Record a failed text-to-image generation in the request log
+const recordTextToImageFailure = (
+  user: { uid: string; email: string },
+  request: TextToImageRequest,
+  error: AppError,
+  generationTimeMs: number
+) =>
+  storeUserRequestData({
+    userId: user.uid,
+    email: user.email,
+    type: 'text-to-image',
+    prompt: request.prompt,
+    improvedPrompt: '',
+    language: request.language,
+    style: request.style,
+    designSpec: request.designSpec,
+    inputImageProvided: false,
+    imageId: null,
+    generationTimeMs,
+    success: false,
+    errorCode: error.code || null,
+  });
 
 // ============================================
 // Public routes (no auth required)
@@ -86,59 +126,452 @@ router.get('/languages', (req: Request, res: Response) => {
   res.json({ success: true, languages });
 });
 
+/**
+ * GET /api/styles
+ * Get the list of style presets accepted by the `style` field
+ */
+router.get('/styles', (req: Request, res: Response) => {
+  const styles = Object.values(STYLE_PRESETS).map((preset) => ({
+    id: preset.id,
+    label: preset.label,
+    description: preset.description,
+  }));
+
+  res.json({ success: true, styles });
+});
+
+/**
+ * GET /api/pricing
+ * Get the credit cost of each operation
+ */
+router.get(
+  '/pricing',
+  asyncHandler(async (req: Request, res: Response) => {
+    const table = await pricing.getTable();
+    const operations = Object.entries(table).map(([operation, price]) => ({ operation, ...price }));
+    res.json({ success: true, operations });
+  })
+);
+
+/**
+ * GET /api/plans
+ * Get the subscription plans: daily top-up, credit cap and included operations
+ */
+router.get('/plans', (req: Request, res: Response) => {
+  const plans = Object.values(PLANS).map((plan) => ({
+    id: plan.id,
+    label: plan.label,
+    dailyCreditIncrement: plan.dailyCreditIncrement,
+    maxCredits: plan.maxCredits,
+    allowedOperations: plan.allowedOperations,
+  }));
+
+  res.json({ success: true, plans, defaultPlan: DEFAULT_PLAN });
+});
+
+/**
+ * GET /api/garment-regions
+ * Get the named regions accepted for region-restricted edits
+ */
+router.get('/garment-regions', (req: Request, res: Response) => {
+  const regions = Object.entries(GARMENT_REGIONS).map(([id, description]) => ({ id, description }));
+  res.json({ success: true, regions });
+});
+
+/**
+ * GET /api/images/:id
+ * Serve a stored generated image (local storage backend only).
+ * Image IDs are unguessable UUIDs, so no auth header is required —
+ * this lets the URL be used directly in an <img> tag.
+ */
+router.get(
+  '/images/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!imageStorage.isServedLocally()) {
+      throw new AppError('Image not found', 404);
+    }
+
+    const image = await imageStorage.load(req.params.id);
+    if (!image) {
+      throw new AppError('Image not found', 404);
+    }
+
+    res.setHeader('Content-Type', image.mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.send(image.data);
+  })
+);
+
 // ============================================
 // Protected routes (auth required)
 // ============================================
 
+/**
+ * Run a text-to-image generation job in the background.
+ * Progress is written to the job document; the credit hold is committed
+ * on success, and on failure it is released and the job is marked failed.
+ */
+const runTextToImageJob = async (
+  jobId: string,
+  user: { uid: string; email: string },
+  request: TextToImageRequest,
+  lane: QueueLane,
+  settleCredit: (succeeded: boolean) => Promise<void>
+): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const result = await runTextToImage(
+      {
+        prompt: request.prompt,
+        language: request.language,
+        stylePreset: getStylePreset(request.style),
+        lane,
+        ownerId: user.uid,
+      },
+      {
+        taskId: jobId,
+        onStage: (stage) => generationJobs.update(jobId, { status: stage }),
+        onTranslated: (translatedPrompt) => generationJobs.update(jobId, { translatedPrompt }),
+        onImproved: (improvedPrompt) => generationJobs.update(jobId, { improvedPrompt }),
+      }
+    );
+    await settleCredit(true);
+
+    await generationJobs.update(jobId, {
+      status: 'succeeded',
+      result: {
+        ...(result.imageId && { imageId: result.imageId }),
+        imageUrl: result.imageUrl,
+        prompt: result.improvedPrompt,
+        generationTime: result.generationTime,
+      },
+    });
+
+    await storeUserRequestData({
+      userId: user.uid,
+      email: user.email,
+      type: 'text-to-image',
+      prompt: request.prompt,
+      improvedPrompt: result.improvedPrompt,
+      language: request.language,
+      style: request.style,
+      designSpec: request.designSpec,
+      inputImageProvided: false,
+      imageId: result.imageId || null,
+      generationTimeMs: result.generationTime,
+      success: true,
+    });
+
+    console.log(`✅ Job ${jobId} completed in ${result.generationTime}ms`);
+  } catch (error: any) {
+    const appError = toAppError(error, 'Failed to generate image');
+    await settleCredit(false);
+    await generationJobs.update(jobId, {
+      status: 'failed',
+      error: appError.message,
+      ...(appError.code && { errorCode: appError.code }),
+    });
+    await recordTextToImageFailure(user, request, appError, Date.now() - startTime);
+    console.error(`❌ Job ${jobId} failed (credit refunded):`, error);
+  }
+};
+
+/**
+ * Run the text-to-image pipeline while streaming progress as SSE events:
+ *   stage      { stage }             translating | improving | queued | generating
+ *   translated { translatedPrompt }
+ *   improved   { improvedPrompt }    sent as soon as it's ready, before the image
+ *   queue      { position }          whenever the Gemini queue position changes
+ *   result     GenerateImageResponse
+ *   error      ErrorResponse        credit is refunded
+ * If the client disconnects while the image step is still queued, the
+ * task is dropped and the credit refunded; a started generation completes.
+ */
+const streamTextToImage = async (
+  req: Request,
+  res: Response,
+  request: TextToImageRequest,
+  credits: number | undefined
+): Promise<void> => {
+  const user = { uid: req.user!.uid, email: req.user!.email };
+  const queueOptions = interactiveQueueOptions(req, res);
+  const stream = openEventStream(res);
+  const startTime = Date.now();
+
+  try {
+    const result = await runTextToImage(
+      { prompt: request.prompt, language: request.language, stylePreset: getStylePreset(request.style), ...queueOptions },
+      {
+        onStage: (stage) => stream.send('stage', { stage }),
+        onTranslated: (translatedPrompt) => stream.send('translated', { translatedPrompt }),
+        onImproved: (improvedPrompt) => stream.send('improved', { improvedPrompt }),
+        onQueuePosition: (position) => stream.send('queue', { position }),
+      }
+    );
+    await commitRequestCredit(req);
+
+    await storeUserRequestData({
+      userId: user.uid,
+      email: user.email,
+      type: 'text-to-image',
+      prompt: request.prompt,
+      improvedPrompt: result.improvedPrompt,
+      language: request.language,
+      style: request.style,
+      designSpec: request.designSpec,
+      inputImageProvided: false,
+      imageId: result.imageId || null,
+      generationTimeMs: result.generationTime,
+      success: true,
+    });
+
+    const response: GenerateImageResponse = {
+      success: true,
+      imageId: result.imageId,
+      imageUrl: result.imageUrl,
+      prompt: result.improvedPrompt,
+      generationTime: result.generationTime,
+      language: request.language,
+      credits,
+      creditsCharged: (req as any).creditsCharged,
+    };
+    stream.send('result', response);
+    console.log(`✅ Image generated in ${result.generationTime}ms via stream (credits remaining: ${credits ?? 'pending'})`);
+  } catch (error: any) {
+    const appError = toAppError(error, 'Failed to generate image');
+    await releaseRequestCredit(req);
+    await recordTextToImageFailure(user, request, appError, Date.now() - startTime);
+    console.error('❌ Streamed image generation failed (credit refunded):', error);
+    stream.send('error', {
+      success: false,
+      error: appError.name,
+      message: appError.message,
+      statusCode: appError.statusCode,
+      ...(appError.code && { code: appError.code }),
+    });
+  } finally {
+    stream.close();
+  }
+};
+
+const MAX_VARIANTS = 4;
+
+/**
+ * Number of variants requested on POST /api/generate (default 1).
+ * Each variant is charged as one text-to-image. Throws AppError(400) for invalid values.
+ */
+const getVariantCount = (req: Request): number => {
+  const { variants } = req.body;
+  if (variants === undefined || variants === null) return 1;
+
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    throw new AppError(`variants must be an integer between 1 and ${MAX_VARIANTS}`, 400);
+  }
+  return variants;
+};
+
+/**
+ * Generate several variants from one prompt, refunding the credits for each
+ * variant that fails. Responds 500 only if every variant failed.
+ */
+const generateVariants = async (
+  req: Request,
+  res: Response<GenerateImageResponse>,
+  request: TextToImageRequest,
+  variantCount: number
+): Promise<void> => {
+  const uid = req.user!.uid;
+
+  const startTime = Date.now();
+
+  let result;
+  try {
+    result = await runTextToImageVariants(
+      {
+        prompt: request.prompt,
+        language: request.language,
+        stylePreset: getStylePreset(request.style),
+        ...interactiveQueueOptions(req, res),
+      },
+      variantCount
+    );
+  } catch (error: any) {
+    const appError = toAppError(error, 'Failed to generate image');
+    await releaseRequestCredit(req);
+    await recordTextToImageFailure(req.user!, request, appError, Date.now() - startTime);
+    console.error('❌ Variant generation failed (credits refunded):', error);
+    throw appError;
+  }
+
+  const succeeded = result.variants.filter((variant) => variant.status === 'succeeded');
+  const failedCount = variantCount - succeeded.length;
+  const creditsPerVariant = ((req as any).creditsCharged ?? 0) / variantCount;
+  const creditsCharged = succeeded.length * creditsPerVariant;
+  const creditsRefunded = failedCount * creditsPerVariant;
+  await settleRequestCredit(req, creditsCharged, succeeded.length);
+
+  if (succeeded.length === 0) {
+    const appError = new AppError(result.variants[0].error || 'Failed to generate image', 502, result.variants[0].errorCode);
+    await recordTextToImageFailure(req.user!, request, appError, result.generationTime);
+    console.error(`❌ All ${variantCount} variants failed (credits refunded)`);
+    throw appError;
+  }
+
+  await storeUserRequestData({
+    userId: uid,
+    email: req.user!.email,
+    type: 'text-to-image',
+    prompt: request.prompt,
+    improvedPrompt: result.improvedPrompt,
+    language: request.language,
+    style: request.style,
+    designSpec: request.designSpec,
+    inputImageProvided: false,
+    imageId: succeeded[0].imageId || null,
+    imageIds: succeeded.map((variant) => variant.imageId).filter((id): id is string => !!id),
+    variantCount,
+    generationTimeMs: result.generationTime,
+    success: true,
+  });
+
+  // Credits were deducted for every variant in the middleware transaction
+  const newCredits = creditsRemaining(req, creditsRefunded);
+
+  console.log(`✅ ${succeeded.length}/${variantCount} variants generated in ${result.generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
+  res.json({
+    success: true,
+    imageId: succeeded[0].imageId,
+    imageUrl: succeeded[0].imageUrl,
+    variants: result.variants,
+    creditsCharged,
+    creditsRefunded,
+    prompt: result.improvedPrompt,
+    generationTime: result.generationTime,
+    language: request.language,
+    credits: newCredits,
+  });
+};
+
 /**
  * POST /api/generate
- * Generate an image from text prompt
+ * Generate an image from text prompt.
+ * Send `Accept: text/event-stream` to receive pipeline progress as SSE.
+ * Send `async: true` (or `Prefer: respond-async`) to get a 202 with a
+ * jobId immediately and poll GET /api/jobs/:id for the result.
+ * Send `variants: 2..4` to get several images from the same improved
+ * prompt; each variant is charged separately and failed variants are refunded.
+ * Send an `Idempotency-Key` header to retry safely without being charged twice.
  */
 router.post(
   '/generate',
   authMiddleware,
-  userCreditLimiter,
-  asyncHandler(async (req: Request<{}, {}, GenerateImageRequest>, res: Response<GenerateImageResponse>) => {
-    const { prompt, language, style } = req.body;
+  idempotency,
+  geminiAvailabilityGuard,
+  createCreditLimiter((req) => pricing.quote('text-to-image', getVariantCount(req))),
+  asyncHandler(async (
+    req: Request<{}, {}, GenerateImageRequest>,
+    res: Response<GenerateImageResponse | GenerationJobAcceptedResponse>
+  ) => {
+    const { language, style } = req.body;
+    const variantCount = getVariantCount(req);
 
     // Validation
+    if (req.body.designSpec && req.body.prompt) {
+      await releaseRequestCredit(req);
+      throw new AppError('Provide either prompt or designSpec, not both', 400);
+    }
+
+    let designSpec: DesignSpec | null = null;
+    let prompt = req.body.prompt;
+    if (req.body.designSpec) {
+      try {
+        designSpec = validateDesignSpec(req.body.designSpec);
+      } catch (error) {
+        await releaseRequestCredit(req);
+        throw error;
+      }
+      prompt = compileDesignSpec(designSpec);
+    }
+
     if (!prompt || !prompt.trim()) {
-      // Refund since validation failed after credit was reserved
-      await refundUserCredit(req.user!.uid);
+      // Release since validation failed after credit was held
+      await releaseRequestCredit(req);
       throw new AppError('Prompt is required', 400);
     }
 
     if (!language) {
-      await refundUserCredit(req.user!.uid);
+      await releaseRequestCredit(req);
       throw new AppError('Language is required', 400);
     }
 
-    console.log(`📝 Image generation request from ${req.user?.email}:`, { prompt, language, style });
+    if (style && !isStyleId(style)) {
+      await releaseRequestCredit(req);
+      throw new AppError(`Unknown style "${style}"`, 400);
+    }
 
-    const startTime = Date.now();
+    console.log(`📝 Image generation request from ${req.user?.email}:`, { prompt, language, style, fromDesignSpec: !!designSpec });
+    const request: TextToImageRequest = { prompt, language, style: style || null, designSpec };
 
-    try {
-      // Step 1: Translate prompt to English if needed
-      let englishPrompt = prompt;
-      if (language !== 'en' && language !== 'en-US' && language !== 'en-IN') {
-        console.log(`🌐 Translating prompt from ${language} to English...`);
-        englishPrompt = await geminiService.translateToEnglish(prompt, language);
-      }
+    // Credits already deducted atomically in the middleware transaction
+    const newCredits = creditsRemaining(req);
+
+    const wantsAsync = req.body.async === true || /respond-async/i.test(req.get('Prefer') || '');
+    if (variantCount > 1 && (wantsAsync || wantsEventStream(req))) {
+      await releaseRequestCredit(req);
+      throw new AppError('variants is only supported for synchronous requests', 400);
+    }
 
-      // Step 2: Improve prompt for better image generation
-      console.log(`✨ Improving prompt...`);
-      const improvedPrompt = await geminiService.improvePrompt(englishPrompt);
+    if (variantCount > 1) {
+      await generateVariants(req, res, request, variantCount);
+      return;
+    }
+
+    if (wantsAsync) {
+      let job;
+      try {
+        job = await generationJobs.create({ userId: req.user!.uid, ...request });
+      } catch (error: any) {
+        await releaseRequestCredit(req);
+        throw new AppError(error.message || 'Failed to create generation job', 500);
+      }
 
-      // Step 3: Generate image (queued for concurrency control)
-      console.log(`🎨 Generating image (queue: ${geminiQueue.getStatus().queuedCount} waiting)...`);
-      const imageUrl = await geminiQueue.enqueue(() =>
-        geminiService.generateImage(improvedPrompt, language)
+      // Fire and forget — the job records its own progress and settles the credit hold
+      void runTextToImageJob(
+        job.id,
+        { uid: req.user!.uid, email: req.user!.email },
+        request,
+        laneForRequest(req, true),
+        (succeeded) => (succeeded ? commitRequestCredit(req) : releaseRequestCredit(req))
       );
 
-      const generationTime = Date.now() - startTime;
+      console.log(`📬 Accepted async generation job ${job.id}`);
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+        credits: newCredits,
+        creditsCharged: (req as any).creditsCharged,
+      });
+      return;
+    }
 
-      // Credits already deducted atomically in the middleware transaction
-      const newCredits = (req as any).currentCredits ?? 0;
+    if (wantsEventStream(req)) {
+      await streamTextToImage(req, res, request, newCredits);
+      return;
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const result = await runTextToImage({
+        prompt,
+        language,
+        stylePreset: getStylePreset(style),
+        ...interactiveQueueOptions(req, res),
+      });
+      await commitRequestCredit(req);
 
       // Step 4: Store request data in Firestore for feedback analysis
       await storeUserRequestData({
@@ -146,55 +579,172 @@ router.post(
         email: req.user!.email,
         type: 'text-to-image',
         prompt: prompt,
-        improvedPrompt: improvedPrompt,
+        improvedPrompt: result.improvedPrompt,
         language: language,
         style: style || null,
+        designSpec: designSpec,
         inputImageProvided: false,
-        generationTimeMs: generationTime,
+        imageId: result.imageId || null,
+        generationTimeMs: result.generationTime,
         success: true,
       });
 
       const response: GenerateImageResponse = {
         success: true,
-        imageUrl: imageUrl,
-        prompt: improvedPrompt,
-        generationTime: generationTime,
+        imageId: result.imageId,
+        imageUrl: result.imageUrl,
+        prompt: result.improvedPrompt,
+        generationTime: result.generationTime,
         language: language,
         credits: newCredits,
+        creditsCharged: (req as any).creditsCharged,
       };
 
-      console.log(`✅ Image generated in ${generationTime}ms (credits remaining: ${newCredits})`);
+      console.log(`✅ Image generated in ${result.generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
       res.json(response);
     } catch (error: any) {
-      // Refund the reserved credit since generation failed
-      await refundUserCredit(req.user!.uid);
+      // Release the held credit since generation failed
+      const appError = toAppError(error, 'Failed to generate image');
+      await releaseRequestCredit(req);
+      await recordTextToImageFailure(req.user!, request, appError, Date.now() - startTime);
       console.error('❌ Image generation failed (credit refunded):', error);
-      throw new AppError(error.message || 'Failed to generate image', 500);
+      throw appError;
+    }
+  })
+);
+
+/**
+ * GET /api/jobs/:id
+ * Poll the status of an async generation job.
+ * Only the user who created the job can see it.
+ */
+router.get(
+  '/jobs/:id',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response<GenerationJobStatusResponse>) => {
+    const job = await generationJobs.get(req.params.id);
+
+    if (!job || job.userId !== req.user!.uid) {
+      throw new AppError('Job not found', 404);
     }
+
+    // Signed URLs expire, so hand out a fresh one on every poll
+    let result = job.result;
+    if (result?.imageId) {
+      result = { ...result, imageUrl: await imageStorage.getUrl(result.imageId) };
+    }
+
+    res.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      queuePosition: job.status === 'queued' ? geminiQueue.getPosition(job.id) : null,
+      prompt: job.prompt,
+      language: job.language,
+      translatedPrompt: job.translatedPrompt,
+      improvedPrompt: job.improvedPrompt,
+      result,
+      error: job.error,
+      errorCode: job.errorCode,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    });
   })
 );
 
+/**
+ * Validate a region-restricted edit request. Throws AppError(400).
+ */
+const validateRegionEdit = (
+  imageData: unknown,
+  instruction: unknown,
+  maskData: unknown,
+  region: unknown
+): void => {
+  if (typeof imageData !== 'string') {
+    throw new AppError('imageData must be a base64 image', 400);
+  }
+
+  if (maskData && region) {
+    throw new AppError('Provide either maskData or region, not both', 400);
+  }
+
+  if (typeof instruction !== 'string' || !instruction.trim()) {
+    throw new AppError('textPrompt (the edit instruction) is required for region edits', 400);
+  }
+
+  if (region && !isGarmentRegion(region)) {
+    throw new AppError(`Unknown region "${region}"`, 400);
+  }
+
+  if (maskData) {
+    if (typeof maskData !== 'string') {
+      throw new AppError('maskData must be a base64 image', 400);
+    }
+
+    const source = getImageDimensions(Buffer.from(parseDataUrl(imageData).base64, 'base64'));
+    const mask = getImageDimensions(Buffer.from(parseDataUrl(maskData).base64, 'base64'));
+
+    if (!source || !mask) {
+      throw new AppError('Could not read image dimensions — use PNG, JPEG or WebP', 400);
+    }
+    if (source.width !== mask.width || source.height !== mask.height) {
+      throw new AppError(
+        `Mask dimensions (${mask.width}x${mask.height}) must match the source image (${source.width}x${source.height})`,
+        400
+      );
+    }
+  }
+};
+
 /**
  * POST /api/generate/from-image
- * Generate an image from a reference image + optional text prompt
+ * Generate an image from a reference image + optional text prompt.
+ * For a region-restricted edit, also send either `maskData` (same size as
+ * the source; white = area to change) or a named `region` (see
+ * GET /api/garment-regions). `textPrompt` is then the edit instruction.
+ * Supports the `Idempotency-Key` header.
  */
 router.post(
   '/generate/from-image',
   authMiddleware,
-  userCreditLimiter,
+  idempotency,
+  geminiAvailabilityGuard,
+  createCreditLimiter((req) => pricing.quote(req.body.maskData || req.body.region ? 'region-edit' : 'image-to-image')),
   asyncHandler(async (req: Request, res: Response) => {
-    const { imageData, textPrompt, style } = req.body;
+    const { imageData, textPrompt, style, maskData, region } = req.body;
 
     // Validation
     if (!imageData) {
-      await refundUserCredit(req.user!.uid);
+      await releaseRequestCredit(req);
       throw new AppError('Image data is required', 400);
     }
 
+    if (typeof imageData !== 'string') {
+      await releaseRequestCredit(req);
+      throw new AppError('imageData must be a base64 image', 400);
+    }
+
+    if (style && !isStyleId(style)) {
+      await releaseRequestCredit(req);
+      throw new AppError(`Unknown style "${style}"`, 400);
+    }
+
+    const isRegionEdit = !!maskData || !!region;
+    if (isRegionEdit) {
+      try {
+        validateRegionEdit(imageData, textPrompt, maskData, region);
+      } catch (error) {
+        await releaseRequestCredit(req);
+        throw error;
+      }
+    }
+
     console.log(`🖼️ Image-to-image generation request from ${req.user?.email}:`, { 
       hasImage: !!imageData, 
       textPrompt: textPrompt || '(none)',
-      style 
+      style,
+      ...(isRegionEdit && { editArea: maskData ? 'mask' : region }),
     });
 
     const startTime = Date.now();
@@ -202,14 +752,25 @@ router.post(
     try {
       // Generate image using multimodal input (queued for concurrency control)
       console.log(`🎨 Generating from reference image (queue: ${geminiQueue.getStatus().queuedCount} waiting)...`);
-      const imageUrl = await geminiQueue.enqueue(() =>
-        geminiService.generateFromImage(imageData, textPrompt || '')
+      const generatedImage = await geminiQueue.enqueue(
+        () =>
+          isRegionEdit
+            ? geminiService.editImageRegion(
+                imageData,
+                textPrompt,
+                maskData ? { maskData } : { regionDescription: GARMENT_REGIONS[region as GarmentRegion] },
+                getStylePreset(style)
+              )
+            : geminiService.generateFromImage(imageData, textPrompt || '', getStylePreset(style)),
+        interactiveQueueOptions(req, res)
       );
+      const { imageId, imageUrl } = await persistGeneratedImage(generatedImage);
+      await commitRequestCredit(req);
 
       const generationTime = Date.now() - startTime;
 
       // Credits already deducted atomically in the middleware transaction
-      const newCredits = (req as any).currentCredits ?? 0;
+      const newCredits = creditsRemaining(req);
 
       // Store request data in Firestore for feedback analysis
       await storeUserRequestData({
@@ -221,28 +782,381 @@ router.post(
         language: 'en',
         style: style || null,
         inputImageProvided: true,
+        editArea: isRegionEdit ? (maskData ? 'mask' : region) : null,
+        imageId: imageId || null,
         generationTimeMs: generationTime,
         success: true,
       });
 
       const response = {
         success: true,
+        imageId: imageId,
         imageUrl: imageUrl,
         generationTime: generationTime,
         credits: newCredits,
+        creditsCharged: (req as any).creditsCharged,
       };
 
-      console.log(`✅ Image generated from reference in ${generationTime}ms (credits remaining: ${newCredits})`);
+      console.log(`✅ Image generated from reference in ${generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
       res.json(response);
     } catch (error: any) {
-      // Refund the reserved credit since generation failed
-      await refundUserCredit(req.user!.uid);
+      // Release the held credit since generation failed
+      const appError = toAppError(error, 'Failed to generate image');
+      await releaseRequestCredit(req);
+      await storeUserRequestData({
+        userId: req.user!.uid,
+        email: req.user!.email,
+        type: 'image-to-image',
+        prompt: textPrompt || '',
+        improvedPrompt: '',
+        language: 'en',
+        style: style || null,
+        inputImageProvided: true,
+        editArea: isRegionEdit ? (maskData ? 'mask' : region) : null,
+        imageId: null,
+        generationTimeMs: Date.now() - startTime,
+        success: false,
+        errorCode: appError.code || null,
+      });
       console.error('❌ Image-to-image generation failed (credit refunded):', error);
-      throw new AppError(error.message || 'Failed to generate image', 500);
+      throw appError;
     }
   })
 );
 
+const MAX_TRY_ON_GARMENTS = 4;
+
+const MULTI_VIEW_VIEWS = Object.keys(DESIGN_VIEWS) as DesignView[];
+
+/**
+ * Credit cost of a try-on: the first garment is included, each additional
+ * reference garment is charged on top.
+ */
+const getTryOnQuote = async (req: Request): Promise<CreditQuote> => {
+  const { garments } = req.body;
+  const extraGarments = Array.isArray(garments)
+    ? Math.min(Math.max(garments.length - 1, 0), MAX_TRY_ON_GARMENTS - 1)
+    : 0;
+  return {
+    operation: 'try-on',
+    credits: (await pricing.cost('try-on')) + (await pricing.cost('try-on-extra-garment', extraGarments)),
+  };
+};
+
+/**
+ * POST /api/generate/try-on
+ * Render a person wearing one or more garments (virtual try-on).
+ * Body: {
+ *   personImage: string,                                 // base64 photo of the person
+ *   garments: { imageData: string, label?: string }[],   // 1-4 garment images, e.g. label "saree"
+ *   instruction?: string
+ * }
+ * Each garment after the first is charged extra (see GET /api/pricing).
+ * Fails with 422 / code NO_PERSON_DETECTED if the person photo has no usable person.
+ */
+router.post(
+  '/generate/try-on',
+  authMiddleware,
+  geminiAvailabilityGuard,
+  createCreditLimiter(getTryOnQuote),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { personImage, garments, instruction } = req.body;
+
+    // Validation
+    if (!personImage || typeof personImage !== 'string') {
+      await releaseRequestCredit(req);
+      throw new AppError('personImage is required', 400);
+    }
+
+    const garmentsValid = Array.isArray(garments)
+      && garments.length > 0
+      && garments.every((garment: any) => garment && typeof garment.imageData === 'string' && garment.imageData);
+    if (!garmentsValid) {
+      await releaseRequestCredit(req);
+      throw new AppError('garments must be a non-empty array of { imageData, label? }', 400);
+    }
+
+    if (garments.length > MAX_TRY_ON_GARMENTS) {
+      await releaseRequestCredit(req);
+      throw new AppError(`At most ${MAX_TRY_ON_GARMENTS} garments are allowed per try-on`, 400);
+    }
+
+    const garmentInputs: { imageData: string; label?: string }[] = garments.map((garment: any) => ({
+      imageData: garment.imageData,
+      ...(typeof garment.label === 'string' && garment.label.trim() && { label: garment.label.trim() }),
+    }));
+
+    console.log(`👗 Try-on request from ${req.user?.email}:`, {
+      garments: garmentInputs.map((garment) => garment.label || 'garment'),
+      instruction: instruction || '(none)',
+    });
+
+    const startTime = Date.now();
+
+    let personDetected: boolean;
+    try {
+      personDetected = await geminiService.detectPerson(personImage);
+    } catch (error: any) {
+      await releaseRequestCredit(req);
+      console.error('❌ Person detection failed (credit refunded):', error);
+      throw toAppError(error, 'Failed to analyze person photo');
+    }
+
+    if (!personDetected) {
+      await releaseRequestCredit(req);
+      throw new AppError(
+        'No person detected in the person photo. Upload a clear photo showing at least head to waist.',
+        422,
+        'NO_PERSON_DETECTED'
+      );
+    }
+
+    try {
+      console.log(`🎨 Generating try-on (queue: ${geminiQueue.getStatus().queuedCount} waiting)...`);
+      const generatedImage = await geminiQueue.enqueue(
+        () => geminiService.generateTryOn(personImage, garmentInputs, typeof instruction === 'string' ? instruction : ''),
+        interactiveQueueOptions(req, res)
+      );
+      const { imageId, imageUrl } = await persistGeneratedImage(generatedImage);
+      await commitRequestCredit(req);
+
+      const generationTime = Date.now() - startTime;
+
+      // Credits already deducted atomically in the middleware transaction
+      const newCredits = creditsRemaining(req);
+
+      await storeUserRequestData({
+        userId: req.user!.uid,
+        email: req.user!.email,
+        type: 'try-on',
+        prompt: instruction || '',
+        improvedPrompt: '',
+        language: 'en',
+        style: null,
+        inputImageProvided: true,
+        imageId: imageId || null,
+        generationTimeMs: generationTime,
+        success: true,
+      });
+
+      console.log(`✅ Try-on generated in ${generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
+      res.json({
+        success: true,
+        imageId: imageId,
+        imageUrl: imageUrl,
+        generationTime: generationTime,
+        credits: newCredits,
+        creditsCharged: (req as any).creditsCharged,
+      });
+    } catch (error: any) {
+      // Release the held credit since generation failed
+      const appError = toAppError(error, 'Failed to generate try-on image');
+      await releaseRequestCredit(req);
+      await storeUserRequestData({
+        userId: req.user!.uid,
+        email: req.user!.email,
+        type: 'try-on',
+        prompt: instruction || '',
+        improvedPrompt: '',
+        language: 'en',
+        style: null,
+        inputImageProvided: true,
+        imageId: null,
+        generationTimeMs: Date.now() - startTime,
+        success: false,
+        errorCode: appError.code || null,
+      });
+      console.error('❌ Try-on generation failed (credit refunded):', error);
+      throw appError;
+    }
+  })
+);
+
+/**
+ * POST /api/generate/multi-view
+ * Render a consistent set of front, back, side and close-up detail views
+ * of one design, grouped under a single designId.
+ * Body: { prompt: string, language: string, style?: string }   → 4 views charged
+ *   or: { imageId: string }   (one of the user's previous generations as the front) → 3 views charged
+ * The front view is the reference for the other views. Failed views are
+ * refunded; responds 500 only if no view could be produced.
+ */
+router.post(
+  '/generate/multi-view',
+  authMiddleware,
+  geminiAvailabilityGuard,
+  createCreditLimiter((req) => pricing.quote('multi-view', req.body.imageId ? MULTI_VIEW_VIEWS.length - 1 : MULTI_VIEW_VIEWS.length)),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { prompt, language, style, imageId: sourceImageId } = req.body;
+    const uid = req.user!.uid;
+    const chargedViews = sourceImageId ? MULTI_VIEW_VIEWS.length - 1 : MULTI_VIEW_VIEWS.length;
+
+    // Validation
+    if (sourceImageId && prompt) {
+      await releaseRequestCredit(req);
+      throw new AppError('Provide either prompt or imageId, not both', 400);
+    }
+
+    if (!sourceImageId && (!prompt || !prompt.trim() || !language)) {
+      await releaseRequestCredit(req);
+      throw new AppError('Either imageId, or prompt and language, are required', 400);
+    }
+
+    if (style && !isStyleId(style)) {
+      await releaseRequestCredit(req);
+      throw new AppError(`Unknown style "${style}"`, 400);
+    }
+
+    // Only the user's own generations can be reused (and earn the one-view discount)
+    if (sourceImageId && (typeof sourceImageId !== 'string' || !(await userOwnsImage(uid, sourceImageId)))) {
+      await releaseRequestCredit(req);
+      throw new AppError('Image not found', 404);
+    }
+
+    const designId = randomUUID();
+    console.log(`📐 Multi-view request from ${req.user?.email}:`, { designId, prompt, sourceImageId, style });
+
+    const startTime = Date.now();
+    const queueOptions = interactiveQueueOptions(req, res);
+    const views: { view: DesignView; status: 'succeeded' | 'failed'; imageId?: string; imageUrl?: string; error?: string }[] = [];
+
+    // Step 1: The front view — reuse the given image or generate it from the prompt
+    let front: { imageId: string; imageUrl: string };
+    let reference: LoadedImage | null = null;
+    let improvedPrompt = '';
+    try {
+      if (sourceImageId) {
+        reference = await imageStorage.load(sourceImageId);
+        if (!reference) {
+          throw new AppError('Image not found', 404);
+        }
+        front = { imageId: sourceImageId, imageUrl: await imageStorage.getUrl(sourceImageId) };
+      } else {
+        const result = await runTextToImage({ prompt, language, stylePreset: getStylePreset(style), ...queueOptions });
+        front = { imageId: result.imageId, imageUrl: result.imageUrl };
+        improvedPrompt = result.improvedPrompt;
+      }
+    } catch (error: any) {
+      await releaseRequestCredit(req);
+      console.error('❌ Multi-view front generation failed (credits refunded):', error);
+      throw toAppError(error, 'Failed to generate image');
+    }
+    views.push({ view: 'front', status: 'succeeded', ...front });
+
+    // Step 2: Remaining views in parallel, each referencing the front view.
+    // If the generated front can't be read back, only those views fail (and
+    // are refunded); the front is still charged and recorded.
+    if (!reference) {
+      try {
+        reference = await imageStorage.load(front.imageId);
+      } catch (error: any) {
+        console.error(`❌ Error loading multi-view front image ${front.imageId}:`, error.message);
+      }
+    }
+    const referenceDataUrl = reference ? toDataUrl(reference.mimeType, reference.data.toString('base64')) : null;
+
+    const otherViews = MULTI_VIEW_VIEWS.filter((view) => view !== 'front');
+    const settled = await Promise.allSettled(
+      otherViews.map(async (view) => {
+        if (!referenceDataUrl) throw new Error('Front view is no longer available');
+        const generatedImage = await geminiQueue.enqueue(
+          () => geminiService.generateView(referenceDataUrl, DESIGN_VIEWS[view]),
+          queueOptions
+        );
+        return persistGeneratedImage(generatedImage);
+      })
+    );
+
+    settled.forEach((outcome, index) => {
+      views.push(
+        outcome.status === 'fulfilled'
+          ? { view: otherViews[index], status: 'succeeded', imageId: outcome.value.imageId, imageUrl: outcome.value.imageUrl }
+          : { view: otherViews[index], status: 'failed', error: outcome.reason?.message || 'Failed to generate view' }
+      );
+    });
+
+    const generationTime = Date.now() - startTime;
+    const failedCount = views.filter((view) => view.status === 'failed').length;
+    const creditsPerView = ((req as any).creditsCharged ?? 0) / chargedViews;
+    const creditsCharged = (chargedViews - failedCount) * creditsPerView;
+    const creditsRefunded = failedCount * creditsPerView;
+    await settleRequestCredit(req, creditsCharged, chargedViews - failedCount);
+
+    // Store one request record per view, grouped by designId
+    for (const view of views) {
+      if (view.status !== 'succeeded') continue;
+      await storeUserRequestData({
+        userId: uid,
+        email: req.user!.email,
+        type: 'multi-view',
+        prompt: prompt || '',
+        improvedPrompt,
+        language: language || 'en',
+        style: style || null,
+        inputImageProvided: !!sourceImageId,
+        imageId: view.imageId || null,
+        designId,
+        view: view.view,
+        generationTimeMs: generationTime,
+        success: true,
+      });
+    }
+
+    // Credits were deducted for every view in the middleware transaction
+    const newCredits = creditsRemaining(req, creditsRefunded);
+
+    console.log(`✅ Multi-view design ${designId}: ${views.length - failedCount}/${views.length} views in ${generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
+    res.json({
+      success: true,
+      designId,
+      views,
+      creditsCharged,
+      creditsRefunded,
+      generationTime,
+      credits: newCredits,
+    });
+  })
+);
+
+/**
+ * GET /api/designs/:id
+ * Get all views of a multi-view design owned by the authenticated user
+ */
+router.get(
+  '/designs/:id',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const snap = await db
+      .collection('userRequests')
+      .where('designId', '==', req.params.id)
+      .where('userId', '==', req.user!.uid)
+      .get();
+
+    if (snap.empty) {
+      throw new AppError('Design not found', 404);
+    }
+
+    const views = await Promise.all(
+      snap.docs.map(async (doc) => {
+        const data = doc.data();
+        return {
+          view: data.view as DesignView,
+          imageId: data.imageId || null,
+          imageUrl: data.imageId ? await imageStorage.getUrl(data.imageId) : null,
+          prompt: data.prompt,
+          style: data.style,
+          createdAt: data.timestamp?.toDate?.()?.toISOString() || null,
+        };
+      })
+    );
+
+    // Return views in render order
+    views.sort((a, b) => MULTI_VIEW_VIEWS.indexOf(a.view) - MULTI_VIEW_VIEWS.indexOf(b.view));
+
+    res.json({ success: true, designId: req.params.id, views });
+  })
+);
+
 /**
  * POST /api/speech-to-text
  * Convert audio to text
@@ -297,23 +1211,33 @@ router.post(
 
 /**
  * GET /api/queue-status
- * Get the current Gemini request queue status
+ * Get the current Gemini request queue status and remaining request budgets.
+ * With a Bearer token, `user` also reports the caller's own running and
+ * waiting generations and their queue positions.
  */
-router.get('/queue-status', (req: Request, res: Response) => {
+router.get('/queue-status', optionalAuthMiddleware, (req: Request, res: Response) => {
   const status = geminiQueue.getStatus();
   res.json({
     success: true,
     ...status,
+    ...(req.user && { user: geminiQueue.getOwnerStatus(req.user.uid) }),
+    circuit: geminiBreaker.getStatus(),
+    budgets: {
+      image: imageBudget.getStatus(),
+      text: textBudget.getStatus(),
+    },
   });
 });
 
 /**
  * GET /api/user/credits
- * Get the current user's credit balance.
- * Also performs a lazy daily top-up: if ≥24 hours have passed since
- * lastCreditRefresh, awards up to dailyCreditIncrement credits (capped
- * at maxCreditsPerUser). If user already has ≥ max, no credits are
- * added but existing balance is NOT reduced.
+ * Get the current user's credit balance, plus credits held for
+ * generations still in progress (heldCredits).
+ * Also applies the daily top-up if a reset (config.creditResetHour in
+ * config.creditResetTimezone) has passed since lastCreditRefresh: awards up
+ * to the plan's dailyCreditIncrement credits (capped at the plan's
+ * maxCredits). If user already has ≥ max, no credits are added but existing
+ * balance is NOT reduced. nextRefreshAt is when the next top-up is due.
  * Admin users (config.adminEmails) are exempt from the daily scheme.
  */
 router.get(
@@ -322,7 +1246,6 @@ router.get(
   asyncHandler(async (req: Request, res: Response) => {
     const uid = req.user!.uid;
     const email = (req.user!.email || '').toLowerCase();
-    const isAdmin = config.adminEmails.map(e => e.toLowerCase()).includes(email);
 
     const usageRef = db.collection('userUsage').doc(uid);
 
@@ -356,92 +1279,164 @@ router.get(
         });
         return {
           credits: 0,
+          heldCredits: 0,
           totalGenerations: 0,
+          plan: DEFAULT_PLAN,
           creditTopUp: null, // first visit, no top-up
         };
       }
 
       const data = usageDoc.data()!;
-      let credits = data.credits ?? 0;
-      const totalGenerations = data.totalGenerations ?? 0;
+
+      // --- Daily credit top-up (skip for admins) ---
+      const { usageData, creditTopUp: topUp } = creditTopUp.apply(transaction, uid, data, email);
 
       // Ensure email and displayName are stored/updated
       const updates: Record<string, any> = {};
       if (!data.email) updates.email = req.user!.email || '';
       if (!data.displayName) updates.displayName = req.user!.displayName || '';
-
-      // --- Daily credit top-up (skip for admins) ---
-      let creditTopUp: { awarded: number; capped: boolean; newBalance: number } | null = null;
-
-      if (!isAdmin) {
-        const lastRefresh = data.lastCreditRefresh
-          ? new Date(data.lastCreditRefresh).getTime()
-          : 0;
-        const now = Date.now();
-        const twentyFourHours = 24 * 60 * 60 * 1000;
-
-        if (now - lastRefresh >= twentyFourHours) {
-          // Eligible for daily top-up
-          if (credits >= config.maxCreditsPerUser) {
-            // Already at or above cap — don't add, don't reduce
-            creditTopUp = { awarded: 0, capped: true, newBalance: credits };
-          } else {
-            // Add credits, but cap at maxCreditsPerUser
-            const maxCanAdd = config.maxCreditsPerUser - credits;
-            const awarded = Math.min(config.dailyCreditIncrement, maxCanAdd);
-            credits += awarded;
-            updates.credits = credits;
-            creditTopUp = { awarded, capped: awarded < config.dailyCreditIncrement, newBalance: credits };
-          }
-          updates.lastCreditRefresh = new Date().toISOString();
-        }
-      }
-
       if (Object.keys(updates).length > 0) {
-        transaction.update(usageRef, updates);
+        transaction.set(usageRef, updates, { merge: true });
       }
 
-      return { credits, totalGenerations, creditTopUp };
+      return {
+        credits: usageData.credits ?? 0,
+        heldCredits: usageData.heldCredits ?? 0,
+        totalGenerations: usageData.totalGenerations ?? 0,
+        plan: getPlan(usageData.plan).id,
+        creditTopUp: topUp,
+      };
     });
 
     res.json({
       success: true,
       credits: result.credits,
+      heldCredits: result.heldCredits,
       totalGenerations: result.totalGenerations,
+      plan: result.plan,
       creditTopUp: result.creditTopUp,
+      nextRefreshAt: nextRefreshAt(),
     });
   })
 );
 
+/**
+ * GET /api/user/credits/history
+ * The authenticated user's credit statement: every balance change, newest first.
+ * Query: ?limit=1..100 (default 20) &cursor=<nextCursor from the previous page>
+ */
+router.get(
+  '/user/credits/history',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+
+    const page = await creditLedger.list(req.user!.uid, { limit, cursor });
+    res.json({ success: true, ...page });
+  })
+);
+
+/**
+ * POST /api/user/redeem
+ * Redeem a promo code or someone's referral code.
+ * Body: { code: string }
+ * A promo code adds its credits right away. A referral code (new users
+ * only) rewards both users once this user's first generation succeeds.
+ * Supports the `Idempotency-Key` header.
+ */
+router.post(
+  '/user/redeem',
+  authMiddleware,
+  idempotency,
+  asyncHandler(async (req: Request, res: Response) => {
+    const code = normalizeCode(req.body.code);
+    if (!code) {
+      throw new AppError('code is required', 400);
+    }
+
+    const user = { uid: req.user!.uid, email: (req.user!.email || '').toLowerCase() };
+
+    const promo = await promoCodes.redeem(code, { ...user, emailVerified: req.user!.emailVerified });
+    if (promo) {
+      console.log(`🎟️ ${user.email} redeemed promo code ${code} (+${promo.credits} credits)`);
+      res.json({ success: true, type: 'promo', code, creditsAdded: promo.credits, credits: promo.balance });
+      return;
+    }
+
+    const referral = await referrals.redeem(code, user.uid);
+    if (referral) {
+      console.log(`🤝 ${user.email} redeemed referral code ${code}`);
+      res.json({
+        success: true,
+        type: 'referral',
+        code,
+        creditsAdded: 0,
+        pendingReward: referral.credits,
+        message: `You and your friend will each get ${referral.credits} credits after your first generation.`,
+      });
+      return;
+    }
+
+    throw new AppError('Invalid code', 404, 'INVALID_CODE');
+  })
+);
+
+/**
+ * GET /api/user/referral
+ * The authenticated user's referral code and how many people used it
+ */
+router.get(
+  '/user/referral',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const uid = req.user!.uid;
+    const [code, stats] = await Promise.all([referrals.getOrCreateCode(uid, req.user!.email || ''), referrals.getStats(uid)]);
+    res.json({ success: true, code, rewardCredits: config.referralRewardCredits, ...stats });
+  })
+);
+
 /**
  * POST /api/user/request-credits
- * Submit a request for more credits (admin reviews manually)
+ * Submit a request for more credits
+ * Body: { message?: string, requestedCredits: number } (1 to config.maxCreditsPerRequest)
+ * One pending request per user (409 CREDIT_REQUEST_PENDING). Requests that
+ * meet the auto-approval rules are approved immediately; the rest wait for
+ * an admin. Either way the user gets a notification once it's decided.
+ * Supports the `Idempotency-Key` header.
  */
 router.post(
   '/user/request-credits',
   authMiddleware,
+  idempotency,
   asyncHandler(async (req: Request, res: Response) => {
     const uid = req.user!.uid;
     const email = req.user!.email;
     const { message, requestedCredits } = req.body;
-    
-    // Parse to ensure it's a number, default to 0 if not provided
-    const parsedCredits = parseInt(requestedCredits as any) || 0;
-
-    await db.collection('creditRequests').add({
-      userId: uid,
-      email: email,
-      message: message || 'Requesting more credits',
-      requestedCredits: parsedCredits,
-      status: 'pending',
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    });
 
-    console.log(`📩 Credit request from ${email} (${uid})`);
+    if (
+      typeof requestedCredits !== 'number' ||
+      !Number.isInteger(requestedCredits) ||
+      requestedCredits < 1 ||
+      requestedCredits > config.maxCreditsPerRequest
+    ) {
+      throw new AppError(`requestedCredits must be a whole number from 1 to ${config.maxCreditsPerRequest}`, 400);
+    }
+
+    const request = await creditRequests.submit(
+      { uid, email },
+      typeof message === 'string' && message.trim() ? message.trim() : 'Requesting more credits',
+      requestedCredits
+    );
+
+    console.log(`📩 Credit request from ${email} (${uid}): ${requestedCredits} credits${request.autoApproved ? ' (auto-approved)' : ''}`);
 
     res.json({
       success: true,
-      message: 'Your credit request has been submitted. An admin will review it shortly.',
+      message: request.autoApproved
+        ? `Your request was approved. ${request.approvedCredits} credits have been added to your balance.`
+        : 'Your credit request has been submitted. An admin will review it shortly.',
+      request,
     });
   })
 );
@@ -470,6 +1465,7 @@ router.get(
         requestedCredits: data.requestedCredits || 0,
         approvedCredits: data.approvedCredits,
         status: data.status,
+        autoApproved: data.autoApproved === true,
         createdAt: data.createdAt?.toDate?.()?.toISOString() || null,
         reviewedAt: data.reviewedAt?.toDate?.()?.toISOString() || null,
       };
@@ -498,4 +1494,41 @@ router.get(
   })
 );
 
+/**
+ * GET /api/user/notifications
+ * The authenticated user's in-app notifications, newest first
+ * Query: ?unread=true to list only unread ones, ?limit=N (default 20, max 100)
+ */
+router.get(
+  '/user/notifications',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+    const result = await notifications.list(req.user!.uid, {
+      limit,
+      unreadOnly: req.query.unread === 'true',
+    });
+    res.json({ success: true, ...result });
+  })
+);
+
+/**
+ * POST /api/user/notifications/read
+ * Mark notifications as read
+ * Body: { ids?: string[] } — all unread notifications if omitted
+ */
+router.post(
+  '/user/notifications/read',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ids } = req.body;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length > 100 || !ids.every((id) => typeof id === 'string' && id))) {
+      throw new AppError('ids must be an array of up to 100 notification IDs', 400);
+    }
+
+    const updated = await notifications.markRead(req.user!.uid, ids);
+    res.json({ success: true, updated });
+  })
+);
+
 export default router;
\ No newline at end of file
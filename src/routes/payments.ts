@@ -0,0 +1,136 @@
+import { Router, Request, Response } from 'express';
+import config from '../config/env';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { idempotency } from '../middleware/idempotency';
+import { CREDIT_PACKS, getCreditPack } from '../config/creditPacks';
+import payments from '../services/payments';
+import { FakePaymentProvider } from '../services/paymentProviders/fakePaymentProvider';
+
+const router = Router();
+
+/**
+ * GET /api/payments/packs
+ * Get the credit packs available for purchase
+ */
+router.get('/packs', (req: Request, res: Response) => {
+  res.json({ success: true, packs: Object.values(CREDIT_PACKS) });
+});
+
+/**
+ * POST /api/payments/orders
+ * Create an order for a credit pack and start a checkout.
+ * Body: { packId: string }
+ * Send the user to checkoutUrl; the credits are added once the payment
+ * provider confirms the payment (see POST /api/payments/webhook).
+ * Supports the `Idempotency-Key` header.
+ */
+router.post(
+  '/orders',
+  authMiddleware,
+  idempotency,
+  asyncHandler(async (req: Request, res: Response) => {
+    const pack = getCreditPack(req.body.packId);
+    if (!pack) {
+      throw new AppError(`packId must be one of: ${Object.keys(CREDIT_PACKS).join(', ')}`, 400);
+    }
+
+    const order = await payments.createOrder({ uid: req.user!.uid, email: req.user!.email || '' }, pack);
+
+    console.log(`🛒 Order ${order.id} created by ${req.user?.email} for pack ${pack.id}`);
+    res.status(201).json({ success: true, order });
+  })
+);
+
+/**
+ * GET /api/payments/orders/:id
+ * Get the status of one of the user's orders
+ */
+router.get(
+  '/orders/:id',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const order = await payments.getOrder(req.params.id, req.user!.uid);
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+    res.json({ success: true, order });
+  })
+);
+
+/**
+ * GET /api/payments/receipts
+ * List the user's receipts, newest first
+ */
+router.get(
+  '/receipts',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const receipts = await payments.listReceipts(req.user!.uid);
+    res.json({ success: true, receipts, total: receipts.length });
+  })
+);
+
+/**
+ * GET /api/payments/receipts/:id
+ * Get one of the user's receipts
+ */
+router.get(
+  '/receipts/:id',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const receipt = await payments.getReceipt(req.params.id, req.user!.uid);
+    if (!receipt) {
+      throw new AppError('Receipt not found', 404);
+    }
+    res.json({ success: true, receipt });
+  })
+);
+
+/**
+ * POST /api/payments/webhook
+ * Payment provider webhook (no user auth — the request is verified by its
+ * signature over the raw body). Each provider event is applied once;
+ * redelivered events are acknowledged without crediting again.
+ */
+router.post(
+  '/webhook',
+  asyncHandler(async (req: Request, res: Response) => {
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) {
+      throw new AppError('Webhook body is required', 400);
+    }
+
+    const result = await payments.handleWebhook(rawBody, req.headers);
+    res.json({ success: true, received: true, ...result });
+  })
+);
+
+/**
+ * POST /api/payments/fake/complete/:orderId
+ * Development only: act as the fake provider's checkout page and send a
+ * signed webhook for the order.
+ * Body: { outcome?: 'succeeded' | 'failed' }   (default 'succeeded')
+ */
+router.post(
+  '/fake/complete/:orderId',
+  authMiddleware,
+  asyncHandler(async (req: Request, res: Response) => {
+    const provider = payments.provider;
+    if (config.nodeEnv === 'production' || !(provider instanceof FakePaymentProvider)) {
+      throw new AppError('Not available', 404);
+    }
+
+    const order = await payments.getOrder(req.params.orderId, req.user!.uid);
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+
+    const type = req.body.outcome === 'failed' ? 'payment.failed' : 'payment.succeeded';
+    const { rawBody, headers } = provider.createSignedEvent(type, order);
+    const result = await payments.handleWebhook(rawBody, headers);
+    res.json({ success: true, ...result });
+  })
+);
+
+export default router;
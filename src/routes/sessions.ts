@@ -0,0 +1,265 @@
+import { Router, Request, Response } from 'express';
+import geminiService from '../services/gemini';
+import geminiQueue from '../services/geminiQueue';
+import imageStorage from '../services/imageStorage';
+import designSessions, { DesignTurn } from '../services/designSessions';
+import { persistGeneratedImage } from '../services/generationPipeline';
+import { storeUserRequestData, userOwnsImage } from '../services/userRequests';
+import { asyncHandler, AppError, toAppError } from '../middleware/errorHandler';
+import { pricedCreditLimiter, commitRequestCredit, releaseRequestCredit, creditsRemaining } from '../middleware/rateLimiter';
+import { authMiddleware } from '../middleware/authMiddleware';
+import { geminiAvailabilityGuard } from '../middleware/upstreamGuard';
+import { getImageDimensions, parseDataUrl, toDataUrl } from '../utils/imageData';
+import { interactiveQueueOptions } from '../utils/queueOptions';
+
+const router = Router();
+
+// All session routes require auth
+router.use(authMiddleware);
+
+// ============================================
+// Helpers
+// ============================================
+
+const MAX_INSTRUCTION_LENGTH = 1000;
+const MAX_BASE_IMAGE_BYTES = 10 * 1024 * 1024;
+const BASE_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Validate an uploaded base image (data URL or bare base64). Throws AppError(400).
+ */
+const validateBaseImageData = (imageData: unknown): void => {
+  if (typeof imageData !== 'string') {
+    throw new AppError('imageData must be a base64 image', 400);
+  }
+
+  const { mimeType, base64 } = parseDataUrl(imageData);
+  const data = Buffer.from(base64, 'base64');
+  if (data.length > MAX_BASE_IMAGE_BYTES) {
+    throw new AppError(`imageData must be at most ${MAX_BASE_IMAGE_BYTES / (1024 * 1024)} MB`, 400);
+  }
+  if (!BASE_IMAGE_MIME_TYPES.includes(mimeType) || !getImageDimensions(data)) {
+    throw new AppError('Could not read the image — use PNG, JPEG or WebP', 400);
+  }
+};
+
+const isEnglish = (language: string): boolean =>
+  language === 'en' || language === 'en-US' || language === 'en-IN';
+
+// Signed URLs expire, so resolve a fresh one whenever a turn is returned
+const withFreshImageUrl = async (turn: DesignTurn): Promise<DesignTurn> => ({
+  ...turn,
+  imageUrl: turn.imageId ? await imageStorage.getUrl(turn.imageId) : turn.imageUrl,
+});
+
+// ============================================
+// Sessions
+// ============================================
+
+/**
+ * POST /api/sessions
+ * Start a new design session.
+ * Body: { title?: string, imageId?: string, imageData?: string }
+ * Optionally seed the session with one of the user's previously generated
+ * images (imageId) or an uploaded PNG, JPEG or WebP (imageData, up to 10 MB);
+ * otherwise the first turn generates from text.
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { title, imageId, imageData } = req.body;
+
+    let baseImageId: string | null = null;
+    if (imageId) {
+      if (
+        typeof imageId !== 'string' ||
+        !(await userOwnsImage(req.user!.uid, imageId)) ||
+        !(await imageStorage.load(imageId))
+      ) {
+        throw new AppError('Image not found', 404);
+      }
+      baseImageId = imageId;
+    } else if (imageData) {
+      validateBaseImageData(imageData);
+      baseImageId = (await imageStorage.saveDataUrl(imageData)).imageId;
+    }
+
+    const session = await designSessions.create({
+      userId: req.user!.uid,
+      title: (typeof title === 'string' && title.trim()) || 'Untitled design',
+      baseImageId,
+    });
+
+    console.log(`🧵 Design session ${session.id} created by ${req.user?.email}`);
+    res.status(201).json({ success: true, session });
+  })
+);
+
+/**
+ * GET /api/sessions
+ * List the authenticated user's design sessions
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await designSessions.listForUser(req.user!.uid);
+    res.json({ success: true, sessions, total: sessions.length });
+  })
+);
+
+/**
+ * GET /api/sessions/:id
+ * Get a session with its full turn history (including branches)
+ */
+router.get(
+  '/:id',
+  asyncHandler(async (req: Request, res: Response) => {
+    const session = await designSessions.getForUser(req.params.id, req.user!.uid);
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+
+    const turns = await Promise.all((await designSessions.getTurns(session.id)).map(withFreshImageUrl));
+    const baseImageUrl = session.baseImageId ? await imageStorage.getUrl(session.baseImageId) : null;
+
+    res.json({ success: true, session: { ...session, baseImageUrl }, turns });
+  })
+);
+
+/**
+ * POST /api/sessions/:id/turns
+ * Apply a text instruction to the design. Priced as a session-turn.
+ * Body: { instruction: string, parentTurnId?: string, language?: string }
+ * The new turn continues from parentTurnId (to branch from an earlier
+ * turn) or from the session head by default.
+ */
+router.post(
+  '/:id/turns',
+  geminiAvailabilityGuard,
+  pricedCreditLimiter('session-turn'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { instruction, parentTurnId, language = 'en' } = req.body;
+    const uid = req.user!.uid;
+
+    // Validation
+    if (!instruction || typeof instruction !== 'string' || !instruction.trim()) {
+      await releaseRequestCredit(req);
+      throw new AppError('Instruction is required', 400);
+    }
+
+    if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+      await releaseRequestCredit(req);
+      throw new AppError(`Instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`, 400);
+    }
+
+    const session = await designSessions.getForUser(req.params.id, uid);
+    if (!session) {
+      await releaseRequestCredit(req);
+      throw new AppError('Session not found', 404);
+    }
+
+    const fromTurnId: string | null = parentTurnId || session.headTurnId;
+    let lineage: DesignTurn[] = [];
+    if (fromTurnId) {
+      const found = await designSessions.getLineage(session.id, fromTurnId);
+      if (!found) {
+        await releaseRequestCredit(req);
+        throw new AppError('Parent turn not found in this session', 404);
+      }
+      lineage = found;
+    }
+
+    console.log(`🔁 Session turn request from ${req.user?.email}:`, {
+      sessionId: session.id,
+      parentTurnId: fromTurnId,
+      instruction,
+    });
+
+    const startTime = Date.now();
+
+    try {
+      const englishInstruction = isEnglish(language)
+        ? instruction.trim()
+        : await geminiService.translateToEnglish(instruction.trim(), language);
+
+      // The parent turn's image (or the session's starting image) is the visual context
+      const previousImageId = lineage.length > 0
+        ? lineage[lineage.length - 1].imageId
+        : session.baseImageId;
+      const previousImage = previousImageId ? await imageStorage.load(previousImageId) : null;
+
+      const generatedImage = await geminiQueue.enqueue(
+        () =>
+          geminiService.refineDesign(
+            previousImage ? toDataUrl(previousImage.mimeType, previousImage.data.toString('base64')) : null,
+            lineage.map((turn) => turn.englishInstruction),
+            englishInstruction
+          ),
+        interactiveQueueOptions(req, res)
+      );
+      const { imageId, imageUrl } = await persistGeneratedImage(generatedImage);
+
+      const generationTime = Date.now() - startTime;
+
+      const turn = await designSessions.addTurn(session.id, {
+        parentTurnId: fromTurnId,
+        instruction: instruction.trim(),
+        englishInstruction,
+        imageId: imageId || null,
+        imageUrl,
+        generationTimeMs: generationTime,
+      });
+      await commitRequestCredit(req);
+
+      // Credits already deducted atomically in the middleware transaction
+      const newCredits = creditsRemaining(req);
+
+      await storeUserRequestData({
+        userId: uid,
+        email: req.user!.email,
+        type: 'session-turn',
+        prompt: instruction.trim(),
+        improvedPrompt: englishInstruction,
+        language,
+        style: null,
+        inputImageProvided: !!previousImage,
+        imageId: imageId || null,
+        sessionId: session.id,
+        generationTimeMs: generationTime,
+        success: true,
+      });
+
+      console.log(`✅ Session ${session.id} turn ${turn.id} generated in ${generationTime}ms (credits remaining: ${newCredits ?? 'pending'})`);
+      res.json({
+        success: true,
+        sessionId: session.id,
+        turn,
+        credits: newCredits,
+        creditsCharged: (req as any).creditsCharged,
+      });
+    } catch (error: any) {
+      // Release the held credit since generation failed
+      const appError = toAppError(error, 'Failed to refine design');
+      await releaseRequestCredit(req);
+      await storeUserRequestData({
+        userId: uid,
+        email: req.user!.email,
+        type: 'session-turn',
+        prompt: instruction.trim(),
+        improvedPrompt: '',
+        language,
+        style: null,
+        inputImageProvided: false,
+        imageId: null,
+        sessionId: session.id,
+        generationTimeMs: Date.now() - startTime,
+        success: false,
+        errorCode: appError.code || null,
+      });
+      console.error('❌ Session turn failed (credit refunded):', error);
+      throw appError;
+    }
+  })
+);
+
+export default router;
@@ -3,8 +3,14 @@ import cors from 'cors';
 import config from './config/env';
 import generateRoutes from './routes/generate';
 import adminRoutes from './routes/admin';
+import sessionRoutes from './routes/sessions';
+import paymentRoutes from './routes/payments';
+import { paymentsAvailable } from './services/paymentProviders';
 import { errorHandler } from './middleware/errorHandler';
 import { apiLimiter } from './middleware/rateLimiter';
+import creditHolds from './services/creditHolds';
+import pendingCharges from './services/pendingCharges';
+import creditTopUp from './services/creditTopUp';
 
 const app: Application = express();
 
@@ -31,11 +37,18 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Prefer', 'Idempotency-Key'],
+  exposedHeaders: ['Retry-After', 'Idempotent-Replayed'],
 }));
 
 // Body parsing - increased limits for large image uploads
-app.use(express.json({ limit: '50mb' }));
+app.use(express.json({
+  limit: '50mb',
+  // Payment webhooks are verified against the exact bytes received
+  verify: (req, res, buf) => {
+    if (req.url?.startsWith('/api/payments/webhook')) (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 // Logging middleware
@@ -48,6 +61,8 @@ app.use((req: Request, res: Response, next) => {
 app.use('/api', (req, res, next) => {
   if (req.method === 'OPTIONS') return next(); // Don't rate-limit preflight
   if (req.path.startsWith('/admin')) return next();
+  if (req.path.startsWith('/images/')) return next(); // Image loads are cheap and bursty
+  if (req.path === '/payments/webhook') return next(); // Provider retries must not be rejected
   return apiLimiter(req, res, next);
 });
 
@@ -64,8 +79,14 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: '/api/health',
       generate: 'POST /api/generate',
+      jobs: 'GET /api/jobs/:id',
+      sessions: 'POST /api/sessions',
       speechToText: 'POST /api/speech-to-text',
       languages: 'GET /api/languages',
+      styles: 'GET /api/styles',
+      pricing: 'GET /api/pricing',
+      plans: 'GET /api/plans',
+      ...(paymentsAvailable() ? { creditPacks: 'GET /api/payments/packs' } : {}),
     },
   });
 });
@@ -75,6 +96,15 @@ app.get('/', (req: Request, res: Response) => {
 //  so we apply auth selectively in the route file)
 app.use('/api', generateRoutes);
 
+// Design session routes (auth applied inside the router)
+app.use('/api/sessions', sessionRoutes);
+
+// Credit pack purchases and the payment provider webhook (auth applied per route).
+// Not mounted without a real provider, so nobody can sign fake payment events.
+if (paymentsAvailable()) {
+  app.use('/api/payments', paymentRoutes);
+}
+
 // Admin routes (auth + admin middleware applied inside the router)
 app.use('/api/admin', adminRoutes);
 
@@ -116,13 +146,32 @@ const startServer = () => {
       console.log(`   - GET  /                       → Server info`);
       console.log(`   - GET  /api/health             → Health check`);
       console.log(`   - GET  /api/languages          → Supported languages`);
+      console.log(`   - GET  /api/styles             → Style presets`);
+      console.log(`   - GET  /api/pricing            → Credit cost per operation`);
+      console.log(`   - GET  /api/plans              → Subscription plans`);
+      if (paymentsAvailable()) {
+        console.log(`   - POST /api/payments/orders    → Buy a credit pack`);
+      }
+      console.log(`   - POST /api/user/redeem        → Redeem a promo or referral code`);
+      console.log(`   - GET  /api/user/notifications → In-app notifications`);
       console.log(`   - POST /api/generate           → Generate image`);
+      console.log(`   - POST /api/generate/try-on    → Virtual try-on`);
+      console.log(`   - POST /api/generate/multi-view → Front/back/side/detail views`);
+      console.log(`   - GET  /api/jobs/:id           → Async generation job status`);
+      console.log(`   - POST /api/sessions           → Start a design session`);
       console.log(`   - POST /api/speech-to-text     → Convert speech to text`);
       console.log('');
       console.log('🔧 Services Status:');
       console.log(`   - Gemini API: ${config.geminiApiKey ? '✅ Configured' : '❌ Not configured'}`);
       console.log(`   - Speech-to-Text: ${config.googleApplicationCredentials ? '✅ Configured' : '⚠️  Optional'}`);
       console.log('');
+
+      // Release credit holds left behind by a previous run, then keep sweeping
+      creditHolds.startSweeper();
+      // Settle charges allowed while Firestore was unavailable
+      pendingCharges.startReconciler();
+      if (config.creditTopUpBatchEnabled) creditTopUp.startBatch();
+
       console.log('💡 Ready to accept requests!');
       console.log('');
     });
@@ -0,0 +1,253 @@
+/**
+ * Credit Holds
+ *
+ * Credits for a generation are reserved when the request arrives and only
+ * settled once the outcome is known:
+ *   place   → credits move from `credits` to `heldCredits` (hold: 'held')
+ *   commit  → the hold is consumed; totalGenerations increases by one
+ *   release → the credits go back to `credits`
+ *   settle  → partial commit: consume some, return the rest (variants, views);
+ *             totalGenerations increases by the images produced
+ *
+ * Every hold has an expiry. If the process dies mid-generation the hold is
+ * never settled, so a sweeper (on startup and on a timer) releases expired
+ * holds — credits can't leak across restarts.
+ *
+ * Firestore layout:
+ *   userUsage/{uid}            credits, heldCredits, totalGenerations
+ *   creditHolds/{holdId}       { userId, amount, status, consumed, createdAt, expiresAt, settledAt }
+ *
+ * Balance changes go through the credit ledger: placing a hold is recorded
+ * as the charge, returning unused credits as a refund.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import config from '../config/env';
+import creditLedger, { CreditLedgerReason } from './creditLedger';
+import creditTopUp from './creditTopUp';
+import { PricedOperation } from '../config/pricing';
+import { PlanId, getPlan } from '../config/plans';
+
+export type CreditHoldStatus = 'held' | 'committed' | 'released' | 'expired';
+
+export interface CreditHold {
+  id: string;
+  userId: string;
+  amount: number;
+  status: CreditHoldStatus;
+  consumed: number;
+  createdAt: string;
+  expiresAt: string;
+  settledAt: string | null;
+}
+
+export type PlaceHoldResult =
+  | { success: true; holdId: string; credits: number; plan: PlanId }
+  | { success: false; reason: 'insufficient-credits' | 'operation-not-in-plan'; credits: number; plan: PlanId };
+
+class CreditHoldStore {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  private collection() {
+    return db.collection('creditHolds');
+  }
+
+  /**
+   * Reserve `amount` credits for an operation, atomically with the daily
+   * top-up and the plan and balance checks. A first-time user gets a
+   * userUsage doc with 0 credits (and no hold).
+   */
+  async place(
+    user: { uid: string; email?: string; displayName?: string },
+    amount: number,
+    operation: PricedOperation
+  ): Promise<PlaceHoldResult> {
+    const usageRef = db.collection('userUsage').doc(user.uid);
+    const holdRef = this.collection().doc(randomUUID());
+
+    return db.runTransaction(async (transaction): Promise<PlaceHoldResult> => {
+      const usageDoc = await transaction.get(usageRef);
+
+      if (!usageDoc.exists) {
+        // First-time user — create doc with 0 credits, no top-up yet
+        const createdAt = new Date().toISOString();
+        transaction.set(usageRef, {
+          credits: 0,
+          heldCredits: 0,
+          totalGenerations: 0,
+          email: user.email || '',
+          displayName: user.displayName || '',
+          lastCreditRefresh: createdAt,
+          createdAt,
+        });
+        const plan = getPlan(undefined);
+        const reason = plan.allowedOperations.includes(operation) ? 'insufficient-credits' : 'operation-not-in-plan';
+        return { success: false, reason, credits: 0, plan: plan.id };
+      }
+
+      const { usageData: data } = creditTopUp.apply(transaction, user.uid, usageDoc.data()!, user.email);
+      const currentCredits = data.credits ?? 0;
+      const plan = getPlan(data.plan);
+
+      if (!plan.allowedOperations.includes(operation)) {
+        return { success: false, reason: 'operation-not-in-plan', credits: Math.max(currentCredits, 0), plan: plan.id };
+      }
+
+      if (currentCredits < amount) {
+        return { success: false, reason: 'insufficient-credits', credits: Math.max(currentCredits, 0), plan: plan.id };
+      }
+
+      const now = Date.now();
+      const newCredits = currentCredits - amount;
+      const hold: Omit<CreditHold, 'id'> = {
+        userId: user.uid,
+        amount,
+        status: 'held',
+        consumed: 0,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + config.creditHoldTtlMs).toISOString(),
+        settledAt: null,
+      };
+
+      transaction.set(holdRef, hold);
+      creditLedger.applyChange(
+        transaction,
+        user.uid,
+        data,
+        { credits: newCredits, heldCredits: (data.heldCredits || 0) + amount },
+        { delta: -amount, reason: 'generation', relatedId: holdRef.id, actor: user.uid, balanceAfter: newCredits }
+      );
+
+      return { success: true, holdId: holdRef.id, credits: newCredits, plan: plan.id };
+    });
+  }
+
+  /**
+   * Consume the whole hold.
+   */
+  async commit(holdId: string): Promise<void> {
+    await this.settle(holdId, Infinity, 1);
+  }
+
+  /**
+   * Return the whole hold to the user's balance.
+   */
+  async release(holdId: string): Promise<void> {
+    await this.settle(holdId, 0);
+  }
+
+  /**
+   * Consume `consumed` credits of the hold (capped at its amount) and
+   * return the rest; `generations` is how many images were produced.
+   * No-op if the hold was already settled or expired.
+   * Errors are logged, not thrown — settling must never fail a response
+   * (an unsettled hold is released by the sweeper).
+   */
+  async settle(
+    holdId: string,
+    consumed: number,
+    generations: number = consumed > 0 ? 1 : 0,
+    status?: CreditHoldStatus
+  ): Promise<void> {
+    try {
+      await this.settleInTransaction(holdId, consumed, generations, status);
+    } catch (error: any) {
+      console.error(`❌ Error settling credit hold ${holdId}:`, error.message);
+    }
+  }
+
+  /**
+   * Release every expired hold. Returns how many were released.
+   */
+  async releaseExpired(): Promise<number> {
+    // Only a handful of holds are active at once; filter expiry in memory
+    // to avoid needing a composite index
+    const snap = await this.collection().where('status', '==', 'held').get();
+    const now = new Date().toISOString();
+    const expired = snap.docs.filter((doc) => doc.data().expiresAt <= now);
+
+    for (const doc of expired) {
+      await this.settle(doc.id, 0, 0, 'expired');
+    }
+    return expired.length;
+  }
+
+  /**
+   * Sweep expired holds now and then every creditHoldSweepIntervalMs.
+   */
+  startSweeper(): void {
+    if (this.sweepTimer) return;
+
+    const sweep = async () => {
+      try {
+        const released = await this.releaseExpired();
+        if (released > 0) {
+          console.log(`🧹 Released ${released} expired credit hold(s)`);
+        }
+      } catch (error: any) {
+        console.error('❌ Credit hold sweep failed:', error.message);
+      }
+    };
+
+    void sweep();
+    this.sweepTimer = setInterval(sweep, config.creditHoldSweepIntervalMs);
+  }
+
+  private async settleInTransaction(
+    holdId: string,
+    consumed: number,
+    generations: number,
+    status?: CreditHoldStatus
+  ): Promise<void> {
+    const holdRef = this.collection().doc(holdId);
+
+    await db.runTransaction(async (transaction) => {
+      const holdDoc = await transaction.get(holdRef);
+      if (!holdDoc.exists) return;
+
+      const hold = holdDoc.data() as Omit<CreditHold, 'id'>;
+      if (hold.status !== 'held') {
+        console.warn(`⚠️  Credit hold ${holdId} already ${hold.status}, not settling again`);
+        return;
+      }
+
+      const usageRef = db.collection('userUsage').doc(hold.userId);
+      const usageDoc = await transaction.get(usageRef);
+      const data = usageDoc.data() || {};
+
+      const used = Math.min(Math.max(consumed, 0), hold.amount);
+      const returned = hold.amount - used;
+      const finalStatus: CreditHoldStatus = status || (used > 0 ? 'committed' : 'released');
+
+      transaction.update(holdRef, {
+        status: finalStatus,
+        consumed: used,
+        settledAt: new Date().toISOString(),
+      });
+
+      const updates = {
+        heldCredits: Math.max((data.heldCredits || 0) - hold.amount, 0),
+        totalGenerations: (data.totalGenerations || 0) + (used > 0 ? generations : 0),
+      };
+
+      if (returned > 0) {
+        const newCredits = (data.credits ?? 0) + returned;
+        const reason: CreditLedgerReason = finalStatus === 'expired' ? 'hold-expired' : 'refund';
+        creditLedger.applyChange(
+          transaction,
+          hold.userId,
+          data,
+          { ...updates, credits: newCredits },
+          { delta: returned, reason, relatedId: holdId, actor: 'system', balanceAfter: newCredits }
+        );
+      } else {
+        transaction.set(usageRef, updates, { merge: true });
+      }
+    });
+  }
+}
+
+// Singleton instance
+const creditHolds = new CreditHoldStore();
+export default creditHolds;
@@ -0,0 +1,130 @@
+/**
+ * Credit Ledger
+ *
+ * Append-only record of every change to a user's credit balance, written
+ * in the same Firestore transaction as the balance change itself, so the
+ * balance always equals the sum of the ledger's deltas.
+ *
+ * Firestore layout:
+ *   userUsage/{uid}                          credits, ledgerStarted
+ *   userUsage/{uid}/creditLedger/{entryId}   one entry per change
+ *
+ * Balances that existed before the ledger get an `opening-balance` entry
+ * the first time they change (tracked by userUsage.ledgerStarted).
+ */
+
+import { db } from '../config/firebaseAdmin';
+import admin from '../config/firebaseAdmin';
+
+export type CreditLedgerReason =
+  | 'opening-balance'
+  | 'generation' // credits charged for a generation
+  | 'refund' // failed generation or rejected request
+  | 'hold-expired' // credit hold never settled, released by the sweeper
+  | 'outage-charge' // generation allowed while Firestore was unavailable, settled later
+  | 'daily-top-up'
+  | 'admin-adjustment'
+  | 'credit-request'
+  | 'purchase' // credit pack bought through the payment provider
+  | 'promo-code'
+  | 'referral'; // reward for a referral, to both sides
+
+export interface CreditLedgerEntry {
+  id: string;
+  delta: number;
+  reason: CreditLedgerReason;
+  relatedId: string | null; // charge, credit request... that caused the change
+  actor: string; // uid of the user, admin email, or 'system'
+  balanceAfter: number;
+  createdAt: string;
+}
+
+export type NewCreditLedgerEntry = Omit<CreditLedgerEntry, 'id' | 'createdAt'>;
+
+export interface CreditLedgerPage {
+  entries: CreditLedgerEntry[];
+  nextCursor: string | null;
+}
+
+class CreditLedger {
+  private usageRef(uid: string) {
+    return db.collection('userUsage').doc(uid);
+  }
+
+  private entries(uid: string) {
+    return this.usageRef(uid).collection('creditLedger');
+  }
+
+  /**
+   * Apply a balance change inside the caller's transaction: merge `updates`
+   * (which must include the new `credits`) into userUsage/{uid} and append
+   * the matching ledger entry.
+   * `usageData` is the userUsage doc as read in that transaction (undefined
+   * if it doesn't exist yet); it decides whether an opening balance has to
+   * be recorded first.
+   */
+  applyChange(
+    transaction: FirebaseFirestore.Transaction,
+    uid: string,
+    usageData: FirebaseFirestore.DocumentData | undefined,
+    updates: FirebaseFirestore.DocumentData,
+    entry: NewCreditLedgerEntry
+  ): void {
+    const now = Date.now();
+
+    if (!usageData?.ledgerStarted) {
+      const openingBalance = usageData?.credits ?? 0;
+      if (openingBalance !== 0) {
+        transaction.set(this.entries(uid).doc(), {
+          delta: openingBalance,
+          reason: 'opening-balance',
+          relatedId: null,
+          actor: 'system',
+          balanceAfter: openingBalance,
+          createdAt: new Date(now - 1).toISOString(), // sorts before the change itself
+        });
+      }
+    }
+
+    transaction.set(this.usageRef(uid), { ...updates, ledgerStarted: true }, { merge: true });
+    transaction.set(this.entries(uid).doc(), { ...entry, createdAt: new Date(now).toISOString() });
+  }
+
+  /**
+   * A page of a user's entries, newest first. Pass the previous page's
+   * nextCursor to continue.
+   */
+  async list(uid: string, options: { limit: number; cursor?: string }): Promise<CreditLedgerPage> {
+    let query = this.entries(uid).orderBy('createdAt', 'desc').limit(options.limit + 1);
+
+    if (options.cursor) {
+      const cursorDoc = await this.entries(uid).doc(options.cursor).get();
+      if (!cursorDoc.exists) return { entries: [], nextCursor: null };
+      query = query.startAfter(cursorDoc);
+    }
+
+    const snap = await query.get();
+    const entries = snap.docs
+      .slice(0, options.limit)
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as CreditLedgerEntry);
+
+    return {
+      entries,
+      nextCursor: snap.docs.length > options.limit ? entries[entries.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Sum of all deltas — what the balance should be.
+   */
+  async sum(uid: string): Promise<number> {
+    const snap = await this.entries(uid)
+      .aggregate({ total: admin.firestore.AggregateField.sum('delta') })
+      .get();
+    return snap.data().total || 0;
+  }
+}
+
+// Singleton instance
+const creditLedger = new CreditLedger();
+export default creditLedger;
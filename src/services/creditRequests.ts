@@ -0,0 +1,221 @@
+/**
+ * Credit Requests
+ *
+ * Users ask for more credits with POST /api/user/request-credits; admins
+ * decide with PUT /api/admin/credit-requests/:id.
+ *
+ *   - A user can have one pending request at a time; submissions also write
+ *     userUsage.pendingCreditRequestId so concurrent ones conflict
+ *   - requestedCredits is limited to config.maxCreditsPerRequest
+ *   - Requests from established users are approved immediately when the
+ *     auto-approval rules allow it (account age, past generations, and a
+ *     monthly allowance of auto-approved credits)
+ *   - Only pending requests can be decided; the decision, the credit grant
+ *     (ledger reason 'credit-request') and the user's notification commit in
+ *     one transaction
+ *
+ * Firestore layout:
+ *   creditRequests/{id}   { userId, email, message, requestedCredits, approvedCredits, status,
+ *                           reviewedBy, reviewedAt, autoApproved, createdAt }
+ *   userUsage/{uid}       pendingCreditRequestId, autoApprovedCredits: { month, credits }
+ */
+
+import { db } from '../config/firebaseAdmin';
+import admin from '../config/firebaseAdmin';
+import config from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import creditLedger from './creditLedger';
+import { newUsageDoc } from './creditTopUp';
+import notifications from './notifications';
+
+export type CreditRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface SubmittedCreditRequest {
+  id: string;
+  status: CreditRequestStatus;
+  requestedCredits: number;
+  approvedCredits: number;
+  autoApproved: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+/**
+ * Whether the auto-approval rules allow granting `credits` right away.
+ */
+const canAutoApprove = (usageData: FirebaseFirestore.DocumentData | undefined, credits: number): boolean => {
+  const rules = config.creditRequestAutoApproval;
+  if (!rules.enabled || !usageData) return false;
+
+  const createdAt = usageData.createdAt ? new Date(usageData.createdAt).getTime() : NaN;
+  const accountAgeDays = isNaN(createdAt) ? 0 : (Date.now() - createdAt) / DAY_MS;
+  if (accountAgeDays < rules.minAccountAgeDays) return false;
+
+  if ((usageData.totalGenerations || 0) < rules.minTotalGenerations) return false;
+
+  const allowance = usageData.autoApprovedCredits;
+  const usedThisMonth = allowance?.month === currentMonth() ? allowance.credits || 0 : 0;
+  return usedThisMonth + credits <= rules.monthlyAllowance;
+};
+
+class CreditRequestService {
+  /**
+   * Submit a request. Throws 409 CREDIT_REQUEST_PENDING if the user already
+   * has one waiting for review.
+   */
+  async submit(
+    user: { uid: string; email: string },
+    message: string,
+    requestedCredits: number
+  ): Promise<SubmittedCreditRequest> {
+    const usageRef = db.collection('userUsage').doc(user.uid);
+    const requestRef = db.collection('creditRequests').doc();
+
+    return db.runTransaction(async (transaction): Promise<SubmittedCreditRequest> => {
+      // Queried rather than read from the pending marker, so requests from
+      // before the marker existed count too
+      const [usageDoc, pendingSnap] = await Promise.all([
+        transaction.get(usageRef),
+        transaction.get(
+          db.collection('creditRequests').where('userId', '==', user.uid).where('status', '==', 'pending').limit(1)
+        ),
+      ]);
+      const usageData = usageDoc.data();
+
+      if (!pendingSnap.empty) {
+        throw new AppError('You already have a credit request waiting for review', 409, 'CREDIT_REQUEST_PENDING');
+      }
+
+      const autoApproved = canAutoApprove(usageData, requestedCredits);
+      const status: CreditRequestStatus = autoApproved ? 'approved' : 'pending';
+
+      transaction.set(requestRef, {
+        userId: user.uid,
+        email: user.email,
+        message,
+        requestedCredits,
+        approvedCredits: autoApproved ? requestedCredits : 0,
+        status,
+        autoApproved,
+        reviewedBy: autoApproved ? 'auto' : null,
+        reviewedAt: autoApproved ? admin.firestore.FieldValue.serverTimestamp() : null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      if (autoApproved) {
+        const allowance = usageData!.autoApprovedCredits;
+        const month = currentMonth();
+        const newCredits = (usageData!.credits ?? 0) + requestedCredits;
+        creditLedger.applyChange(
+          transaction,
+          user.uid,
+          usageData,
+          {
+            credits: newCredits,
+            pendingCreditRequestId: null,
+            autoApprovedCredits: {
+              month,
+              credits: (allowance?.month === month ? allowance.credits || 0 : 0) + requestedCredits,
+            },
+          },
+          { delta: requestedCredits, reason: 'credit-request', relatedId: requestRef.id, actor: 'auto', balanceAfter: newCredits }
+        );
+        notifications.add(transaction, user.uid, {
+          type: 'credit-request-decided',
+          title: 'Credit request approved',
+          message: `${requestedCredits} credits have been added to your balance.`,
+          data: { requestId: requestRef.id, status, credits: requestedCredits },
+        });
+      } else {
+        transaction.set(
+          usageRef,
+          usageDoc.exists
+            ? { pendingCreditRequestId: requestRef.id }
+            : { ...newUsageDoc(user.email, 0), pendingCreditRequestId: requestRef.id },
+          { merge: true }
+        );
+      }
+
+      return { id: requestRef.id, status, requestedCredits, approvedCredits: autoApproved ? requestedCredits : 0, autoApproved };
+    });
+  }
+
+  /**
+   * Approve (adding `credits`, at least 1) or deny a pending request. The
+   * decision, the grant and the user's notification commit together; a
+   * request that was already decided can't be decided again.
+   */
+  async decide(
+    requestId: string,
+    status: 'approved' | 'denied',
+    credits: number,
+    reviewer: string
+  ): Promise<{ userId: string; credits: number }> {
+    if (status === 'approved' && (!Number.isInteger(credits) || credits < 1)) {
+      throw new AppError('An approval must grant a whole number of credits of at least 1', 400);
+    }
+
+    const requestRef = db.collection('creditRequests').doc(requestId);
+
+    return db.runTransaction(async (transaction) => {
+      const requestDoc = await transaction.get(requestRef);
+      if (!requestDoc.exists) {
+        throw new AppError('Credit request not found', 404);
+      }
+
+      const data = requestDoc.data()!;
+      if (data.status !== 'pending') {
+        throw new AppError(`Credit request was already ${data.status}`, 409);
+      }
+
+      const usageRef = db.collection('userUsage').doc(data.userId);
+      const usageDoc = await transaction.get(usageRef);
+      const usageData = usageDoc.data();
+
+      const granted = status === 'approved' ? credits : 0;
+
+      transaction.update(requestRef, {
+        status,
+        approvedCredits: granted,
+        reviewedBy: reviewer,
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      // Clear the pending marker
+      const updates: Record<string, any> = usageData?.pendingCreditRequestId === requestId
+        ? { pendingCreditRequestId: null }
+        : {};
+
+      if (granted > 0) {
+        const newCredits = (usageData?.credits ?? 0) + granted;
+        Object.assign(updates, usageDoc.exists ? { credits: newCredits } : newUsageDoc(data.email || '', newCredits));
+        creditLedger.applyChange(transaction, data.userId, usageData, updates, {
+          delta: granted,
+          reason: 'credit-request',
+          relatedId: requestId,
+          actor: reviewer,
+          balanceAfter: newCredits,
+        });
+      } else if (Object.keys(updates).length > 0) {
+        transaction.update(usageRef, updates);
+      }
+
+      notifications.add(transaction, data.userId, {
+        type: 'credit-request-decided',
+        title: status === 'approved' ? 'Credit request approved' : 'Credit request denied',
+        message: status === 'approved'
+          ? `${granted} credits have been added to your balance.`
+          : 'Your credit request was not approved this time.',
+        data: { requestId, status, credits: granted },
+      });
+
+      return { userId: data.userId, credits: granted };
+    });
+  }
+}
+
+// Singleton instance
+const creditRequests = new CreditRequestService();
+export default creditRequests;
@@ -0,0 +1,214 @@
+/**
+ * Daily Credit Top-Up
+ *
+ * Credits refill once per calendar day, at config.creditResetHour in
+ * config.creditResetTimezone (e.g. midnight IST), not 24 hours after the
+ * last refill — so the refill time doesn't drift and every user refills at
+ * the same moment.
+ *
+ * A user is due when their lastCreditRefresh is before the most recent
+ * reset. The top-up is applied inside the caller's transaction by both the
+ * credit limiter and GET /api/user/credits, so a user who generates
+ * straight away still gets it. The optional batch job pre-applies it to
+ * every due user shortly after each reset.
+ *
+ * Amounts come from the user's plan (dailyCreditIncrement, capped at
+ * maxCredits); admins (config.adminEmails) are exempt.
+ */
+
+import { db } from '../config/firebaseAdmin';
+import config from '../config/env';
+import { getPlan } from '../config/plans';
+import creditLedger from './creditLedger';
+
+export interface CreditTopUp {
+  awarded: number;
+  capped: boolean;
+  newBalance: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in ms.
+ */
+const zoneOffsetMs = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)!.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * The instant a wall-clock time in the reset timezone happens. `wallTime`
+ * is that wall-clock time written as if it were UTC.
+ */
+const wallTimeToInstant = (wallTime: number): number => {
+  const timeZone = config.creditResetTimezone;
+  const guess = wallTime - zoneOffsetMs(wallTime, timeZone);
+  // Second pass picks up a DST change between the guess and the real instant
+  return wallTime - zoneOffsetMs(guess, timeZone);
+};
+
+/**
+ * The most recent reset at or before `now`, and the one after it.
+ */
+export const resetWindow = (now: number = Date.now()): { lastResetAt: number; nextRefreshAt: number } => {
+  const wallNow = new Date(now + zoneOffsetMs(now, config.creditResetTimezone));
+  let resetWall = Date.UTC(
+    wallNow.getUTCFullYear(),
+    wallNow.getUTCMonth(),
+    wallNow.getUTCDate(),
+    config.creditResetHour
+  );
+  if (wallTimeToInstant(resetWall) > now) resetWall -= DAY_MS;
+
+  return {
+    lastResetAt: wallTimeToInstant(resetWall),
+    nextRefreshAt: wallTimeToInstant(resetWall + DAY_MS),
+  };
+};
+
+/**
+ * ISO time of the next reset, for responses.
+ */
+export const nextRefreshAt = (now: number = Date.now()): string =>
+  new Date(resetWindow(now).nextRefreshAt).toISOString();
+
+/**
+ * A complete userUsage doc for a user first seen outside the credit limiter
+ * (e.g. credits granted before their first generation). Like first-time
+ * setup it counts as refreshed now, so no top-up is due straight away.
+ */
+export const newUsageDoc = (email: string, credits: number): FirebaseFirestore.DocumentData => {
+  const now = new Date().toISOString();
+  return {
+    credits,
+    heldCredits: 0,
+    totalGenerations: 0,
+    email,
+    displayName: '',
+    lastCreditRefresh: now,
+    createdAt: now,
+  };
+};
+
+const isExempt = (email: string | undefined): boolean =>
+  !!email && config.adminEmails.map((e) => e.toLowerCase()).includes(email.toLowerCase());
+
+class CreditTopUpService {
+  private batchTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Whether a usage doc is due for a top-up.
+   */
+  isDue(usageData: FirebaseFirestore.DocumentData, email?: string, now: number = Date.now()): boolean {
+    if (isExempt(email || usageData.email)) return false;
+    const lastRefresh = usageData.lastCreditRefresh ? new Date(usageData.lastCreditRefresh).getTime() : 0;
+    return lastRefresh < resetWindow(now).lastResetAt;
+  }
+
+  /**
+   * Apply the top-up to an existing userUsage doc inside the caller's
+   * transaction, if due. Returns the doc as it is after the top-up (pass it
+   * on to later writes in the same transaction) and what was awarded.
+   */
+  apply(
+    transaction: FirebaseFirestore.Transaction,
+    uid: string,
+    usageData: FirebaseFirestore.DocumentData,
+    email?: string
+  ): { usageData: FirebaseFirestore.DocumentData; creditTopUp: CreditTopUp | null } {
+    if (!this.isDue(usageData, email)) {
+      return { usageData, creditTopUp: null };
+    }
+
+    const plan = getPlan(usageData.plan);
+    const credits = usageData.credits ?? 0;
+    const lastCreditRefresh = new Date().toISOString();
+
+    if (credits >= plan.maxCredits) {
+      // Already at or above cap — don't add, don't reduce
+      transaction.set(db.collection('userUsage').doc(uid), { lastCreditRefresh }, { merge: true });
+      return {
+        usageData: { ...usageData, lastCreditRefresh },
+        creditTopUp: { awarded: 0, capped: true, newBalance: credits },
+      };
+    }
+
+    // Add credits, but cap at the plan's maxCredits
+    const awarded = Math.min(plan.dailyCreditIncrement, plan.maxCredits - credits);
+    const newBalance = credits + awarded;
+    const updates = { credits: newBalance, lastCreditRefresh };
+    creditLedger.applyChange(transaction, uid, usageData, updates, {
+      delta: awarded,
+      reason: 'daily-top-up',
+      relatedId: null,
+      actor: 'system',
+      balanceAfter: newBalance,
+    });
+
+    return {
+      usageData: { ...usageData, ...updates, ledgerStarted: true },
+      creditTopUp: { awarded, capped: awarded < plan.dailyCreditIncrement, newBalance },
+    };
+  }
+
+  /**
+   * Top up every due user. Returns how many were topped up.
+   */
+  async applyToAll(): Promise<number> {
+    const snap = await db.collection('userUsage').get();
+    const due = snap.docs.filter((doc) => this.isDue(doc.data()));
+
+    let toppedUp = 0;
+    for (const doc of due) {
+      try {
+        const applied = await db.runTransaction(async (transaction) => {
+          const fresh = await transaction.get(doc.ref);
+          if (!fresh.exists) return false;
+          return this.apply(transaction, doc.id, fresh.data()!).creditTopUp !== null;
+        });
+        if (applied) toppedUp += 1;
+      } catch (error: any) {
+        console.error(`❌ Error topping up credits for ${doc.id}:`, error.message);
+      }
+    }
+    return toppedUp;
+  }
+
+  /**
+   * Run applyToAll now and then every creditTopUpBatchIntervalMs.
+   */
+  startBatch(): void {
+    if (this.batchTimer) return;
+
+    const run = async () => {
+      try {
+        const toppedUp = await this.applyToAll();
+        if (toppedUp > 0) {
+          console.log(`🌅 Daily top-up applied to ${toppedUp} user(s)`);
+        }
+      } catch (error: any) {
+        console.error('❌ Daily top-up batch failed:', error.message);
+      }
+    };
+
+    void run();
+    this.batchTimer = setInterval(run, config.creditTopUpBatchIntervalMs);
+  }
+}
+
+// Singleton instance
+const creditTopUp = new CreditTopUpService();
+export default creditTopUp;
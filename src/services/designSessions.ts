@@ -0,0 +1,130 @@
+/**
+ * Design Session Store
+ *
+ * A design session is a multi-turn refinement conversation. Each turn holds
+ * one text instruction and the image it produced. Turns form a tree: a turn
+ * normally continues from the session head, but any earlier turn can be
+ * chosen as the parent to branch the design.
+ *
+ * Firestore layout:
+ *   designSessions/{sessionId}               session metadata + headTurnId
+ *   designSessions/{sessionId}/turns/{turnId}
+ */
+
+import { db } from '../config/firebaseAdmin';
+
+export interface DesignSession {
+  id: string;
+  userId: string;
+  title: string;
+  baseImageId: string | null; // optional starting image
+  headTurnId: string | null;
+  turnCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DesignTurn {
+  id: string;
+  parentTurnId: string | null;
+  instruction: string; // as typed by the user
+  englishInstruction: string; // translated, used as model context
+  imageId: string | null;
+  imageUrl: string;
+  generationTimeMs: number;
+  createdAt: string;
+}
+
+class DesignSessionStore {
+  private collection() {
+    return db.collection('designSessions');
+  }
+
+  async create(data: { userId: string; title: string; baseImageId: string | null }): Promise<DesignSession> {
+    const now = new Date().toISOString();
+    const ref = this.collection().doc();
+    const session: Omit<DesignSession, 'id'> = {
+      ...data,
+      headTurnId: null,
+      turnCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await ref.set(session);
+    return { id: ref.id, ...session };
+  }
+
+  /**
+   * Fetch a session, or null if it doesn't exist or belongs to another user.
+   */
+  async getForUser(sessionId: string, userId: string): Promise<DesignSession | null> {
+    const doc = await this.collection().doc(sessionId).get();
+    if (!doc.exists) return null;
+
+    const session = { id: doc.id, ...doc.data() } as DesignSession;
+    return session.userId === userId ? session : null;
+  }
+
+  /**
+   * List a user's sessions, most recently updated first.
+   */
+  async listForUser(userId: string): Promise<DesignSession[]> {
+    // Sorted in memory to avoid needing a composite index
+    const snap = await this.collection().where('userId', '==', userId).get();
+    const sessions = snap.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as DesignSession);
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * All turns of a session in creation order.
+   */
+  async getTurns(sessionId: string): Promise<DesignTurn[]> {
+    const snap = await this.collection().doc(sessionId).collection('turns').orderBy('createdAt').get();
+    return snap.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as DesignTurn);
+  }
+
+  /**
+   * The chain of turns from the session root down to (and including) turnId.
+   * Returns null if turnId is not part of the session.
+   */
+  async getLineage(sessionId: string, turnId: string): Promise<DesignTurn[] | null> {
+    const turns = await this.getTurns(sessionId);
+    const byId = new Map(turns.map((turn) => [turn.id, turn]));
+
+    const lineage: DesignTurn[] = [];
+    let current = byId.get(turnId);
+    if (!current) return null;
+
+    while (current) {
+      lineage.unshift(current);
+      current = current.parentTurnId ? byId.get(current.parentTurnId) : undefined;
+    }
+    return lineage;
+  }
+
+  /**
+   * Append a turn and move the session head to it, atomically.
+   */
+  async addTurn(sessionId: string, data: Omit<DesignTurn, 'id' | 'createdAt'>): Promise<DesignTurn> {
+    const sessionRef = this.collection().doc(sessionId);
+    const turnRef = sessionRef.collection('turns').doc();
+    const now = new Date().toISOString();
+    const turn: Omit<DesignTurn, 'id'> = { ...data, createdAt: now };
+
+    await db.runTransaction(async (transaction) => {
+      const sessionDoc = await transaction.get(sessionRef);
+      transaction.set(turnRef, turn);
+      transaction.update(sessionRef, {
+        headTurnId: turnRef.id,
+        turnCount: (sessionDoc.data()?.turnCount || 0) + 1,
+        updatedAt: now,
+      });
+    });
+
+    return { id: turnRef.id, ...turn };
+  }
+}
+
+// Singleton instance
+const designSessions = new DesignSessionStore();
+export default designSessions;
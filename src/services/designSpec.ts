@@ -0,0 +1,135 @@
+/**
+ * Design Spec Compiler
+ *
+ * Validates a structured DesignSpec from the client and compiles it into
+ * the sectioned prompt format that GeminiService.improvePrompt preserves
+ * ("UPPER BODY ONLY:", "LOWER BODY ONLY:", "HEADWEAR:", "FOOTWEAR:").
+ * Compilation is deterministic: the same spec always yields the same prompt.
+ */
+
+import { AppError } from '../middleware/errorHandler';
+import { DesignSpec, DesignSpecSection, GarmentSectionSpec } from '../types';
+
+const MAX_FIELD_LENGTH = 200;
+const MAX_NEGATIVE_CONSTRAINTS = 10;
+
+// Section order and headers — the order here is the order in the prompt
+const SECTION_HEADERS: Record<DesignSpecSection, string> = {
+  upperBody: 'UPPER BODY ONLY',
+  lowerBody: 'LOWER BODY ONLY',
+  headwear: 'HEADWEAR',
+  footwear: 'FOOTWEAR',
+};
+
+const SECTION_KEYS = Object.keys(SECTION_HEADERS) as DesignSpecSection[];
+
+const OPTIONAL_FIELDS = ['fabric', 'print', 'color', 'embellishment', 'fit'] as const;
+
+const validateText = (value: unknown, field: string, required: boolean): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new AppError(`designSpec.${field} is required`, 400);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new AppError(`designSpec.${field} must be a string`, 400);
+  }
+  const trimmed = value.trim();
+  if (required && !trimmed) {
+    throw new AppError(`designSpec.${field} is required`, 400);
+  }
+  if (trimmed.length > MAX_FIELD_LENGTH) {
+    throw new AppError(`designSpec.${field} must be at most ${MAX_FIELD_LENGTH} characters`, 400);
+  }
+  return trimmed || undefined;
+};
+
+const validateConstraints = (value: unknown, field: string): string[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new AppError(`designSpec.${field} must be an array of strings`, 400);
+  }
+  if (value.length > MAX_NEGATIVE_CONSTRAINTS) {
+    throw new AppError(`designSpec.${field} allows at most ${MAX_NEGATIVE_CONSTRAINTS} entries`, 400);
+  }
+  const constraints = value
+    .map((entry, index) => validateText(entry, `${field}[${index}]`, false))
+    .filter((entry): entry is string => !!entry);
+  return constraints.length > 0 ? constraints : undefined;
+};
+
+const validateSection = (value: unknown, section: DesignSpecSection): GarmentSectionSpec => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AppError(`designSpec.${section} must be an object`, 400);
+  }
+  const input = value as Record<string, unknown>;
+
+  const result: GarmentSectionSpec = {
+    garmentType: validateText(input.garmentType, `${section}.garmentType`, true)!,
+  };
+  for (const field of OPTIONAL_FIELDS) {
+    const text = validateText(input[field], `${section}.${field}`, false);
+    if (text) result[field] = text;
+  }
+  const negativeConstraints = validateConstraints(input.negativeConstraints, `${section}.negativeConstraints`);
+  if (negativeConstraints) result.negativeConstraints = negativeConstraints;
+
+  return result;
+};
+
+/**
+ * Validate untrusted input and return a normalized DesignSpec.
+ * Unknown keys are dropped; strings are trimmed; empty optionals are removed.
+ * Throws AppError(400) describing the first problem found.
+ */
+export const validateDesignSpec = (input: unknown): DesignSpec => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new AppError('designSpec must be an object', 400);
+  }
+  const raw = input as Record<string, unknown>;
+
+  const spec: DesignSpec = {};
+  for (const section of SECTION_KEYS) {
+    if (raw[section] !== undefined && raw[section] !== null) {
+      spec[section] = validateSection(raw[section], section);
+    }
+  }
+
+  if (!SECTION_KEYS.some((section) => spec[section])) {
+    throw new AppError(`designSpec must include at least one of: ${SECTION_KEYS.join(', ')}`, 400);
+  }
+
+  const negativeConstraints = validateConstraints(raw.negativeConstraints, 'negativeConstraints');
+  if (negativeConstraints) spec.negativeConstraints = negativeConstraints;
+
+  return spec;
+};
+
+const compileSection = (header: string, section: GarmentSectionSpec): string => {
+  const details = OPTIONAL_FIELDS
+    .filter((field) => section[field])
+    .map((field) => `${field}: ${section[field]}`);
+
+  let line = `${header}: ${section.garmentType}`;
+  if (details.length > 0) line += ` (${details.join('; ')})`;
+  line += '.';
+
+  if (section.negativeConstraints) {
+    line += ` DO NOT generate ${section.negativeConstraints.join(', ')}.`;
+  }
+  return line;
+};
+
+/**
+ * Compile a validated DesignSpec into a sectioned prompt.
+ */
+export const compileDesignSpec = (spec: DesignSpec): string => {
+  const lines = SECTION_KEYS
+    .filter((section) => spec[section])
+    .map((section) => compileSection(SECTION_HEADERS[section], spec[section]!));
+
+  if (spec.negativeConstraints) {
+    lines.push(`DO NOT generate ${spec.negativeConstraints.join(', ')}.`);
+  }
+
+  return lines.join('\n');
+};
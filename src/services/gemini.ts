@@ -1,17 +1,26 @@
 import { GoogleGenAI } from '@google/genai';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import config from '../config/env';
+import { StylePreset } from '../config/stylePresets';
+import { parseDataUrl, toDataUrl } from '../utils/imageData';
+import { createImageProvider, ImageProvider, ImageGenerationRequest, ProviderImage } from './imageProviders';
+import { geminiCall } from './resilience';
+import { imageBudget, textBudget } from './rateBudget';
 
 class GeminiService {
   private genAI: GoogleGenAI;
   private textModel: any;
+  private imageProvider: ImageProvider;
 
   constructor() {
-    // New SDK for image generation
+    // New SDK for multimodal text calls (person detection)
     this.genAI = new GoogleGenAI({
       apiKey: config.geminiApiKey,
     });
 
+    // Image generation goes through a pluggable provider (Gemini or offline stub)
+    this.imageProvider = createImageProvider();
+
     // Old SDK for text generation (prompt improvement, translation)
     const oldGenAI = new GoogleGenerativeAI(config.geminiApiKey);
     this.textModel = oldGenAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
@@ -20,75 +29,39 @@ class GeminiService {
   /**
    * Generate an image based on text prompt using Gemini's native image generation
    */
-  async generateImage(prompt: string, language: string): Promise<string> {
+  async generateImage(prompt: string, language: string, stylePreset: StylePreset | null = null): Promise<string> {
   try {
-    console.log(`🎨 Generating image for prompt: "${prompt}" (Language: ${language})`);
+    console.log(`🎨 Generating image for prompt: "${prompt}" (Language: ${language}, Style: ${stylePreset?.id || 'none'})`);
 
     // Enhance the prompt (now removes human references)
-    const enhancedPrompt = this.enhancePrompt(prompt, language);
+    const enhancedPrompt = this.enhancePrompt(prompt, language, stylePreset);
     console.log(`✨ Enhanced prompt: "${enhancedPrompt}"`);
 
-    // Generate image using Gemini 2.5 Flash Image model
-    const response = await this.genAI.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: enhancedPrompt,
-    });
-
-    // Debug logging
-    console.log('📦 Response received');
-    console.log('📊 Candidates:', response.candidates?.length || 0);
-
-    // Extract image data
-    let imageData: string | null = null;
-
-    if (!response.candidates || response.candidates.length === 0) {
-      console.error('❌ No candidates in response');
-      throw new Error('No candidates in response');
-    }
-
-    const candidate = response.candidates[0];
-    
-    if (!candidate.content?.parts) {
-      console.error('❌ No content parts in response');
-      throw new Error('Invalid response structure');
-    }
-
-    console.log(`🔍 Checking ${candidate.content.parts.length} parts for image data`);
-
-    for (const part of candidate.content.parts) {
-      if (part.inlineData?.data) {
-        imageData = part.inlineData.data;
-        console.log(`✅ Found image data (${imageData.length} bytes)`);
-        break;
-      }
-      
-      if (part.text) {
-        console.log(`ℹ️  Found text part: ${part.text.substring(0, 100)}...`);
-      }
-    }
-
-    if (!imageData) {
-      console.error('❌ No image data in response parts');
-      console.error('Available parts:', candidate.content.parts.map(p => Object.keys(p)));
-      throw new Error('No image data in response');
-    }
-
+    const image = await this.renderImage({ prompt: enhancedPrompt });
     console.log(`✅ Image generated successfully`);
 
-    return `data:image/png;base64,${imageData}`;
+    return image;
   } catch (error) {
     console.error('❌ Error generating image:', error);
-    console.log('⚠️  Falling back to mock image');
-    return this.generateMockImage(prompt);
+    throw error;
   }
 }
 
   /**
    * Enhance the prompt with fashion-specific context
    */
-  private enhancePrompt(prompt: string, language: string): string {
+  private enhancePrompt(prompt: string, language: string, stylePreset: StylePreset | null = null): string {
     
     const negativePrompt = 'no text, no watermark, no labels, no words, no letters, no writing';
+
+    // A style preset supplies its own fragments, lighting, background and exclusions
+    if (stylePreset) {
+      return 'High-quality fashion photography, detailed fabric texture, fashion magazine quality, 8K resolution, ' +
+        `${stylePreset.lighting}, ${stylePreset.background}, ` +
+        stylePreset.promptFragments.join(', ') + ', ' +
+        [negativePrompt, ...stylePreset.negativeConstraints].join(', ') + ', ' +
+        prompt;
+    }
   
   const fashionContext = 
     'High-quality fashion photography, professional studio lighting, detailed fabric texture, ' +
@@ -123,88 +96,236 @@ class GeminiService {
   /**
    * Generate an image from a reference image + optional text prompt (multimodal)
    */
-  async generateFromImage(imageData: string, textPrompt: string): Promise<string> {
+  async generateFromImage(imageData: string, textPrompt: string, stylePreset: StylePreset | null = null): Promise<string> {
     try {
       console.log(`🖼️ Generating from reference image with prompt: "${textPrompt || '(no text)'}"`);
 
-      // Extract base64 data if it's a data URL
-      let base64Data = imageData;
-      let mimeType = 'image/png';
-      
-      if (imageData.startsWith('data:')) {
-        const matches = imageData.match(/^data:(.+);base64,(.+)$/);
-        if (matches) {
-          mimeType = matches[1];
-          base64Data = matches[2];
-        }
-      }
-
       // Create the multimodal prompt
       const fashionPrompt = textPrompt 
         ? `Based on this reference fashion image, create a new fashion design with the following modifications: ${textPrompt}. High-quality fashion photography, professional studio lighting, detailed fabric texture, vibrant colors, elegant styling, fashion magazine quality, no text, no watermark.`
         : `Analyze this fashion garment and create a new, inspired fashion design based on its style elements. High-quality fashion photography, professional studio lighting, detailed fabric texture, vibrant colors, elegant styling, fashion magazine quality, no text, no watermark.`;
+      const styledPrompt = stylePreset
+        ? `${fashionPrompt} ${this.describeStylePreset(stylePreset)}`
+        : fashionPrompt;
+
+      const outputImage = await this.generateWithReference(imageData, styledPrompt);
+
+      console.log(`✅ Image-to-image generation complete`);
+
+      return outputImage;
+    } catch (error) {
+      console.error('❌ Error in image-to-image generation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render one view (back, side, detail...) of the garment shown in a
+   * reference image, keeping the design identical across views.
+   */
+  async generateView(referenceImage: string, viewInstruction: string): Promise<string> {
+    try {
+      console.log(`📐 Generating view: "${viewInstruction}"`);
 
-      // Generate using Gemini multimodal
-      const response = await this.genAI.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+      const viewPrompt = `This reference image shows a fashion garment design. ` +
+        `Render the EXACT same garment — identical cut, colors, fabric, print, embellishment and styling — ` +
+        `${viewInstruction}. Do not redesign or alter the garment in any way. ` +
+        `Same lighting and background as the reference. High-quality fashion photography, no text, no watermark.`;
+
+      const outputImage = await this.generateWithReference(referenceImage, viewPrompt);
+
+      console.log(`✅ View generation complete`);
+      return outputImage;
+    } catch (error) {
+      console.error('❌ Error in view generation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Multimodal generation: one reference image + a text prompt → one image.
+   */
+  private async generateWithReference(imageData: string, prompt: string): Promise<string> {
+    return this.renderImage({ prompt, images: [parseDataUrl(imageData)] });
+  }
+
+  /**
+   * Check whether a photo shows a person suitable for virtual try-on
+   * (a single clearly visible person, body mostly in frame).
+   */
+  async detectPerson(imageData: string): Promise<boolean> {
+    const { mimeType, base64 } = parseDataUrl(imageData);
+
+    const response = await geminiCall(async () => {
+      await textBudget.acquire();
+      return this.genAI.models.generateContent({
+        model: 'gemini-2.5-flash',
         contents: [
           {
             role: 'user',
             parts: [
+              { inlineData: { mimeType, data: base64 } },
               {
-                inlineData: {
-                  mimeType: mimeType,
-                  data: base64Data,
-                }
+                text: 'Does this photo show a real person whose body (at least head to waist) is clearly visible, ' +
+                  'so that clothing could be rendered on them? ' +
+                  'Respond with JSON only: {"personDetected": true} or {"personDetected": false}.',
               },
-              {
-                text: fashionPrompt
-              }
-            ]
-          }
+            ],
+          },
         ],
+        config: { responseMimeType: 'application/json' },
       });
+    }, { label: 'Person detection' });
+
+    try {
+      const result = JSON.parse(response.text || '{}');
+      console.log(`🧍 Person detection: ${result.personDetected === true}`);
+      return result.personDetected === true;
+    } catch (error) {
+      console.error('❌ Could not parse person detection response:', response.text);
+      throw new Error('Person detection returned an invalid response');
+    }
+  }
 
-      // Extract image data from response
-      let outputImageData: string | null = null;
+  /**
+   * Render the person from the first image wearing the given garments.
+   */
+  async generateTryOn(
+    personImage: string,
+    garments: { imageData: string; label?: string }[],
+    instruction: string = ''
+  ): Promise<string> {
+    try {
+      console.log(`👗 Generating try-on with ${garments.length} garment(s)`);
+
+      const images: ProviderImage[] = [parseDataUrl(personImage), ...garments.map((garment) => parseDataUrl(garment.imageData))];
+      const garmentList = garments.map((garment, index) => `Image ${index + 2}: ${garment.label || 'garment'}`);
+
+      const image = await this.renderImage({
+        images,
+        prompt: 'Image 1 is a photo of a person. The following images are garments:\n' +
+          garmentList.join('\n') + '\n\n' +
+          'Render the person from image 1 wearing all of these garments together, draped and fitted naturally to their body and pose. ' +
+          'Preserve the person\'s face, skin tone, body shape, hair and pose exactly, and reproduce each garment\'s ' +
+          'color, fabric, print and embellishment faithfully. ' +
+          (instruction ? `Additional instructions: ${instruction}. ` : '') +
+          'High-quality fashion photography, professional studio lighting, no text, no watermark.',
+      });
 
-      if (!response.candidates || response.candidates.length === 0) {
-        throw new Error('No candidates in response');
-      }
+      console.log(`✅ Try-on generation complete`);
+      return image;
+    } catch (error) {
+      console.error('❌ Error in try-on generation:', error);
+      throw error;
+    }
+  }
 
-      const candidate = response.candidates[0];
-      
-      if (!candidate.content?.parts) {
-        throw new Error('Invalid response structure');
+  /**
+   * Edit only one area of a garment image.
+   * The area is given either as a mask image (white = editable, black = keep)
+   * with the same dimensions as the source, or as a named region description.
+   */
+  async editImageRegion(
+    imageData: string,
+    instruction: string,
+    area: { maskData?: string; regionDescription?: string },
+    stylePreset: StylePreset | null = null
+  ): Promise<string> {
+    try {
+      console.log(`✂️ Region edit (${area.maskData ? 'mask' : area.regionDescription}): "${instruction}"`);
+
+      const images: ProviderImage[] = [parseDataUrl(imageData)];
+
+      let areaInstruction: string;
+      if (area.maskData) {
+        images.push(parseDataUrl(area.maskData));
+        areaInstruction = 'The second image is an edit mask of the same size as the first: ' +
+          'white pixels mark the ONLY area you may change, black pixels must remain pixel-identical.';
+      } else {
+        areaInstruction = `Change ONLY ${area.regionDescription}.`;
       }
 
-      for (const part of candidate.content.parts) {
-        if (part.inlineData?.data) {
-          outputImageData = part.inlineData.data;
-          console.log(`✅ Found generated image data (${outputImageData.length} bytes)`);
-          break;
-        }
+      let editPrompt = `Edit this fashion garment image. ${areaInstruction} ` +
+        `Apply this change inside that area: ${instruction}. ` +
+        `Everything outside that area — the rest of the garment, colors, fabric, framing and background — ` +
+        `must stay exactly the same. Keep the output the same size and composition as the original. ` +
+        `No text, no watermark.`;
+      if (stylePreset) {
+        editPrompt += ` ${this.describeStylePreset(stylePreset)}`;
       }
 
-      if (!outputImageData) {
-        throw new Error('No image data in response');
+      const image = await this.renderImage({ prompt: editPrompt, images });
+
+      console.log(`✅ Region edit complete`);
+      return image;
+    } catch (error) {
+      console.error('❌ Error in region edit:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one refinement turn of a design session.
+   * The previous turn's image (if any) is sent as the visual reference and
+   * earlier instructions are summarized as text, so the model keeps the
+   * design consistent while applying only the new change.
+   */
+  async refineDesign(previousImage: string | null, history: string[], instruction: string): Promise<string> {
+    try {
+      console.log(`🔁 Refining design (turn ${history.length + 1}): "${instruction}"`);
+
+      const historyText = history.length > 0
+        ? `Design history so far:\n${history.map((step, index) => `${index + 1}. ${step}`).join('\n')}\n\n`
+        : '';
+
+      const images: ProviderImage[] = [];
+      let refinementPrompt: string;
+
+      if (previousImage) {
+        images.push(parseDataUrl(previousImage));
+        refinementPrompt = `${historyText}This image is the current version of the fashion design. ` +
+          `Apply ONLY the following change and keep every other aspect of the garment (cut, colors, fabric, print, ` +
+          `embellishment, framing and background) exactly the same: ${instruction}. ` +
+          `High-quality fashion photography, no text, no watermark.`;
+      } else {
+        refinementPrompt = this.enhancePrompt(`${historyText}${instruction}`, 'en');
       }
 
-      console.log(`✅ Image-to-image generation complete`);
+      const image = await this.renderImage({ prompt: refinementPrompt, images });
 
-      return `data:image/png;base64,${outputImageData}`;
+      console.log(`✅ Design refinement complete`);
+      return image;
     } catch (error) {
-      console.error('❌ Error in image-to-image generation:', error);
+      console.error('❌ Error refining design:', error);
       throw error;
     }
   }
 
   /**
-   * Generate a mock image URL (fallback)
+   * Run one request through the configured image provider and return the
+   * image as a data URL. Transient upstream failures are retried; what's
+   * left is thrown as ImageGenerationError (or CircuitOpenError).
+   * The first attempt's rate budget token is taken by GeminiQueue;
+   * each retry takes another.
    */
-  private generateMockImage(prompt: string): string {
-    const seed = Math.floor(Math.random() * 1000);
-    return `https://source.unsplash.com/800x800/?fashion,clothing,${seed}`;
+  private async renderImage(request: ImageGenerationRequest): Promise<string> {
+    const image = await geminiCall(async () => {
+      const result = await this.imageProvider.generate(request);
+      if (!result.ok) {
+        throw result.error;
+      }
+      return result.image;
+    }, { label: 'Image generation', beforeRetry: () => imageBudget.acquire() });
+    return toDataUrl(image.mimeType, image.base64);
+  }
+
+  /**
+   * Describe a style preset as plain instructions for the model
+   */
+  private describeStylePreset(stylePreset: StylePreset): string {
+    return `Apply the "${stylePreset.label}" style: ${stylePreset.promptFragments.join(', ')}. ` +
+      `Lighting: ${stylePreset.lighting}. Background: ${stylePreset.background}. ` +
+      `Avoid: ${stylePreset.negativeConstraints.join(', ')}.`;
   }
 
   /**
@@ -218,7 +339,10 @@ class GeminiService {
 
       const translationPrompt = `Translate the following ${sourceLanguage} text to English. Only return the translation, nothing else:\n\n${text}`;
       
-      const result = await this.textModel.generateContent(translationPrompt);
+      const result = await geminiCall<any>(async () => {
+        await textBudget.acquire();
+        return this.textModel.generateContent(translationPrompt);
+      }, { label: 'Translation' });
       const response = await result.response;
       const translation = response.text();
 
@@ -236,7 +360,7 @@ class GeminiService {
   /**
    * Improve prompt quality using Gemini with strict structure preservation
    */
-  async improvePrompt(userPrompt: string): Promise<string> {
+  async improvePrompt(userPrompt: string, stylePreset: StylePreset | null = null): Promise<string> {
     try {
       const systemInstruction = `
 You are an expert AI prompt engineer for a high-end fashion image generator.
@@ -251,9 +375,16 @@ CRITICAL RULES:
 6. BE CONCISE: Do not add conversational filler ("Here is an improved prompt..."). Just return the prompt directly.
 `;
 
-      const finalPrompt = `${systemInstruction}\n\nInput Prompt:\n"${userPrompt}"\n\nKindy provide the Improved Prompt:`;
+      const styleInstruction = stylePreset
+        ? `\nSTYLE DIRECTION: Enhance the descriptions in keeping with this style, without overriding anything the user specified. ${this.describeStylePreset(stylePreset)}\n`
+        : '';
+
+      const finalPrompt = `${systemInstruction}${styleInstruction}\n\nInput Prompt:\n"${userPrompt}"\n\nKindy provide the Improved Prompt:`;
 
-      const result = await this.textModel.generateContent(finalPrompt);
+      const result = await geminiCall<any>(async () => {
+        await textBudget.acquire();
+        return this.textModel.generateContent(finalPrompt);
+      }, { label: 'Prompt improvement' });
       const response = await result.response;
       const improvedPrompt = response.text();
 
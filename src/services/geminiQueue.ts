@@ -2,87 +2,416 @@
  * Gemini API Request Queue
  *
  * A concurrency limiter that ensures we don't exceed Gemini's rate limits.
- * Requests beyond the max concurrent limit wait in a FIFO queue.
+ * Requests beyond the max concurrent limit wait in one of three lanes:
+ *   priority    → admins
+ *   interactive → a user waiting on the HTTP response
+ *   batch       → async jobs nobody is actively waiting on
+ * A free slot always goes to the highest non-empty lane. Within a lane,
+ * owners (users) take turns: the next task is the oldest one of the owner
+ * served least recently, so one user's burst can't starve everyone else.
+ * Each owner may have at most `geminiMaxTasksPerUser` tasks running or
+ * waiting at once.
+ *
+ * Waiting tasks are rejected when their deadline passes, when their
+ * AbortSignal fires (e.g. the client disconnected), or up front when the
+ * queue is already at its maximum depth.
  *
  * Gemini 2.5 Flash Image (Tier 1): ~10 RPM
- * With ~30s per generation, 4 concurrent ≈ ~8 RPM (safe margin).
+ * Concurrency alone doesn't bound RPM (fast responses free slots quickly),
+ * so a task also needs a token from the image rate budget to start;
+ * waiting tasks are released as tokens refill.
  */
 
 import config from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { imageBudget } from './rateBudget';
+
+export const QUEUE_LANES = ['priority', 'interactive', 'batch'] as const;
+
+export type QueueLane = (typeof QUEUE_LANES)[number];
+
+// How long an owner's last turn is remembered once they have no tasks left,
+// so resubmitting right away doesn't put them ahead of owners who waited
+const LAST_SERVED_TTL_MS = 10 * 60 * 1000;
+
+export interface EnqueueOptions {
+  /** Caller-chosen ID used to look up the task's queue position */
+  taskId?: string;
+  /** User the task runs for; used for round-robin scheduling and the per-user cap */
+  ownerId?: string;
+  /** Lane to wait in (default: interactive) */
+  lane?: QueueLane;
+  /** Max time to wait for a slot before the task is rejected (default: config) */
+  timeoutMs?: number;
+  /** Aborting removes a waiting task; a task that already started runs to completion */
+  signal?: AbortSignal;
+  /** Called when the task leaves the queue and starts executing */
+  onStart?: () => void;
+  /** Called with the task's 1-based position whenever it changes while waiting */
+  onPositionChange?: (position: number) => void;
+}
 
 interface QueuedTask<T> {
   fn: () => Promise<T>;
+  options: EnqueueOptions;
+  lane: QueueLane;
+  enqueuedAt: number;
+  position: number; // last position reported to onPositionChange
   resolve: (value: T) => void;
   reject: (reason: any) => void;
+  cleanup: () => void; // clears the deadline timer and abort listener
+}
+
+export interface LaneStatus {
+  queuedCount: number;
+  oldestWaitMs: number;
+}
+
+export interface OwnerQueueStatus {
+  runningCount: number;
+  queuedCount: number;
+  positions: number[]; // 1-based positions of the owner's waiting tasks
+  maxTasks: number;
+}
+
+export interface QueueStatus {
+  activeCount: number;
+  queuedCount: number;
+  maxConcurrent: number;
+  maxQueueDepth: number;
+  oldestWaitMs: number;
+  lanes: Record<QueueLane, LaneStatus>;
 }
 
 class GeminiQueue {
   private maxConcurrent: number;
+  private maxQueueDepth: number;
   private activeCount: number = 0;
-  private queue: QueuedTask<any>[] = [];
+  private refillTimer: NodeJS.Timeout | null = null;
+  private ownerTaskCounts = new Map<string, number>(); // running + waiting, per owner
+  private lastServed = new Map<string, { seq: number; servedAt: number }>(); // owner → last dispatch
+  private dispatchSeq = 0;
+  private lastPrunedAt = 0;
+  private lanes: Record<QueueLane, QueuedTask<any>[]> = {
+    priority: [],
+    interactive: [],
+    batch: [],
+  };
 
   constructor() {
     this.maxConcurrent = config.geminiMaxConcurrent;
-    console.log(`🚦 Gemini queue initialized (max concurrent: ${this.maxConcurrent})`);
+    this.maxQueueDepth = config.geminiMaxQueueDepth;
+    console.log(`🚦 Gemini queue initialized (max concurrent: ${this.maxConcurrent}, max queued: ${this.maxQueueDepth})`);
   }
 
   /**
-   * Returns current queue status
+   * Returns current queue status, overall and per lane
    */
-  getStatus(): { activeCount: number; queuedCount: number; maxConcurrent: number } {
+  getStatus(): QueueStatus {
+    const now = Date.now();
+    const laneStatus = (tasks: QueuedTask<any>[]): LaneStatus => ({
+      queuedCount: tasks.length,
+      oldestWaitMs: tasks.length > 0 ? now - tasks[0].enqueuedAt : 0,
+    });
+
+    const lanes = {
+      priority: laneStatus(this.lanes.priority),
+      interactive: laneStatus(this.lanes.interactive),
+      batch: laneStatus(this.lanes.batch),
+    };
+
     return {
       activeCount: this.activeCount,
-      queuedCount: this.queue.length,
+      queuedCount: this.getQueuedCount(),
       maxConcurrent: this.maxConcurrent,
+      maxQueueDepth: this.maxQueueDepth,
+      oldestWaitMs: Math.max(...QUEUE_LANES.map((lane) => lanes[lane].oldestWaitMs)),
+      lanes,
+    };
+  }
+
+  /**
+   * Returns the 1-based position of a waiting task, or null if the task
+   * is not waiting (already running, finished, or unknown).
+   */
+  getPosition(taskId: string): number | null {
+    const index = this.waitingOrder().findIndex((task) => task.options.taskId === taskId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Running/waiting tasks of one owner, with the positions of the waiting ones.
+   */
+  getOwnerStatus(ownerId: string): OwnerQueueStatus {
+    const positions: number[] = [];
+    this.waitingOrder().forEach((task, index) => {
+      if (task.options.ownerId === ownerId) positions.push(index + 1);
+    });
+
+    return {
+      runningCount: this.getOwnerTaskCount(ownerId) - positions.length,
+      queuedCount: positions.length,
+      positions,
+      maxTasks: config.geminiMaxTasksPerUser,
     };
   }
 
+  /**
+   * Whether the owner is at the per-user cap of running + waiting tasks.
+   */
+  isOwnerAtLimit(ownerId: string): boolean {
+    return this.getOwnerTaskCount(ownerId) >= config.geminiMaxTasksPerUser;
+  }
+
   /**
    * Enqueue an async function to be executed when a slot is available.
    * Returns the result of the function.
    * If a slot is available immediately, executes right away.
-   * Otherwise, waits in a FIFO queue.
+   * Otherwise, waits in its lane until a slot frees up, the deadline
+   * passes (503 QUEUE_TIMEOUT) or the signal aborts (499 REQUEST_CANCELLED).
+   * Rejects immediately with 429 USER_QUEUE_LIMIT if the owner is at the
+   * per-user cap, 503 QUEUE_FULL if the queue is at max depth, or
+   * 503 RATE_BUDGET_EXHAUSTED once the daily image budget is used up.
    */
-  async enqueue<T>(fn: () => Promise<T>): Promise<T> {
-    // If we have capacity, run immediately
-    if (this.activeCount < this.maxConcurrent) {
-      return this.execute(fn);
+  async enqueue<T>(fn: () => Promise<T>, options: EnqueueOptions = {}): Promise<T> {
+    const lane = options.lane || 'interactive';
+
+    if (options.signal?.aborted) {
+      throw new AppError('Request was cancelled', 499, 'REQUEST_CANCELLED');
+    }
+
+    if (options.ownerId && this.isOwnerAtLimit(options.ownerId)) {
+      throw this.ownerLimitError();
+    }
+
+    if (imageBudget.isExhaustedForDay()) {
+      throw imageBudget.exhaustedError();
+    }
+
+    // If we have capacity (and nobody is waiting ahead of us), run immediately
+    if (this.activeCount < this.maxConcurrent && this.getQueuedCount() === 0 && imageBudget.tryAcquire()) {
+      this.trackOwner(options.ownerId, 1);
+      return this.execute(fn, options);
+    }
+
+    if (this.getQueuedCount() >= this.maxQueueDepth) {
+      console.warn(`🚫 Gemini queue full (${this.maxQueueDepth} waiting), rejecting ${lane} request`);
+      const error = new AppError('The generation queue is full. Please try again shortly.', 503, 'QUEUE_FULL');
+      error.retryAfterSeconds = 30;
+      throw error;
     }
 
     // Otherwise, queue and wait
-    console.log(`⏳ Gemini request queued (active: ${this.activeCount}/${this.maxConcurrent}, queued: ${this.queue.length + 1})`);
+    console.log(`⏳ Gemini request queued in ${lane} lane (active: ${this.activeCount}/${this.maxConcurrent}, queued: ${this.getQueuedCount() + 1})`);
 
     return new Promise<T>((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
+      const timeoutMs = options.timeoutMs ?? config.geminiQueueTimeoutMs;
+
+      const timer = setTimeout(() => {
+        if (this.remove(task)) {
+          console.warn(`⌛ Gemini request in ${lane} lane timed out after waiting ${timeoutMs}ms`);
+          reject(new AppError('Timed out waiting for a free generation slot. Please try again.', 503, 'QUEUE_TIMEOUT'));
+        }
+      }, timeoutMs);
+
+      const onAbort = () => {
+        if (this.remove(task)) {
+          console.log(`🛑 Gemini request in ${lane} lane cancelled while waiting`);
+          reject(new AppError('Request was cancelled', 499, 'REQUEST_CANCELLED'));
+        }
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const task: QueuedTask<T> = {
+        fn,
+        options,
+        lane,
+        enqueuedAt: Date.now(),
+        position: 0,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener('abort', onAbort);
+        },
+      };
+
+      this.trackOwner(options.ownerId, 1);
+      this.lanes[lane].push(task);
+      this.notifyPositions();
+      this.dispatch();
     });
   }
 
+  /**
+   * 429 for an owner that already has the maximum number of tasks.
+   */
+  ownerLimitError(): AppError {
+    return new AppError(
+      `You already have ${config.geminiMaxTasksPerUser} generations running or waiting. ` +
+        'Wait for one to finish before starting another.',
+      429,
+      'USER_QUEUE_LIMIT'
+    );
+  }
+
   /**
    * Execute a function, tracking active count, and process next in queue when done.
    */
-  private async execute<T>(fn: () => Promise<T>): Promise<T> {
+  private async execute<T>(fn: () => Promise<T>, options: EnqueueOptions): Promise<T> {
     this.activeCount++;
-    console.log(`🔄 Gemini request processing (active: ${this.activeCount}/${this.maxConcurrent}, queued: ${this.queue.length})`);
+    if (options.ownerId) {
+      const now = Date.now();
+      this.lastServed.set(options.ownerId, { seq: ++this.dispatchSeq, servedAt: now });
+      this.pruneLastServed(now);
+    }
+    options.onStart?.();
+    console.log(`🔄 Gemini request processing (active: ${this.activeCount}/${this.maxConcurrent}, queued: ${this.getQueuedCount()})`);
 
     try {
       const result = await fn();
       return result;
     } finally {
       this.activeCount--;
-      this.processNext();
+      this.trackOwner(options.ownerId, -1);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Start waiting tasks (highest lane first, owners taking turns) while
+   * there are free slots and rate budget tokens. If tokens run out, try
+   * again when the next refills.
+   */
+  private dispatch(): void {
+    while (this.activeCount < this.maxConcurrent) {
+      const lane = QUEUE_LANES.find((name) => this.lanes[name].length > 0);
+      if (!lane) return;
+
+      if (!imageBudget.tryAcquire()) {
+        this.scheduleDispatch(imageBudget.msUntilAvailable());
+        return;
+      }
+
+      const tasks = this.lanes[lane];
+      const next = tasks.splice(this.nextIndex(tasks, this.lastServed), 1)[0];
+      next.cleanup();
+      this.notifyPositions();
+      this.execute(next.fn, next.options)
+        .then(next.resolve)
+        .catch(next.reject);
     }
   }
 
+  private scheduleDispatch(delayMs: number): void {
+    if (this.refillTimer) return;
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.dispatch();
+    }, delayMs);
+  }
+
+  /**
+   * Take a waiting task out of its lane. Returns false if it already left.
+   */
+  private remove(task: QueuedTask<any>): boolean {
+    const tasks = this.lanes[task.lane];
+    const index = tasks.indexOf(task);
+    if (index === -1) return false;
+
+    tasks.splice(index, 1);
+    task.cleanup();
+    this.trackOwner(task.options.ownerId, -1);
+    this.notifyPositions();
+    return true;
+  }
+
+  /**
+   * Index of the task to start next within a lane: the oldest task of the
+   * owner served least recently (owners never served go first).
+   */
+  private nextIndex(tasks: QueuedTask<any>[], lastServed: Map<string, { seq: number }>): number {
+    let bestIndex = 0;
+    let bestSeq = Infinity;
+    tasks.forEach((task, index) => {
+      const seq = task.options.ownerId ? lastServed.get(task.options.ownerId)?.seq ?? 0 : 0;
+      if (seq < bestSeq) {
+        bestSeq = seq;
+        bestIndex = index;
+      }
+    });
+    return bestIndex;
+  }
+
   /**
-   * Process the next task in the queue, if any.
+   * All waiting tasks in the order they will be started, assuming no new
+   * arrivals (simulates the round-robin on a copy of the state).
    */
-  private processNext(): void {
-    if (this.queue.length === 0) return;
+  private waitingOrder(): QueuedTask<any>[] {
+    const order: QueuedTask<any>[] = [];
+    const lastServed = new Map<string, { seq: number }>(this.lastServed);
+    let seq = this.dispatchSeq;
 
-    const next = this.queue.shift()!;
-    this.execute(next.fn)
-      .then(next.resolve)
-      .catch(next.reject);
+    for (const lane of QUEUE_LANES) {
+      const tasks = [...this.lanes[lane]];
+      while (tasks.length > 0) {
+        const next = tasks.splice(this.nextIndex(tasks, lastServed), 1)[0];
+        if (next.options.ownerId) lastServed.set(next.options.ownerId, { seq: ++seq });
+        order.push(next);
+      }
+    }
+    return order;
+  }
+
+  private getOwnerTaskCount(ownerId: string): number {
+    return this.ownerTaskCounts.get(ownerId) || 0;
+  }
+
+  /**
+   * Adjust an owner's running + waiting count. Owners with nothing left are
+   * dropped from the counts; their last turn is kept (see pruneLastServed).
+   */
+  private trackOwner(ownerId: string | undefined, delta: number): void {
+    if (!ownerId) return;
+
+    const count = this.getOwnerTaskCount(ownerId) + delta;
+    if (count > 0) {
+      this.ownerTaskCounts.set(ownerId, count);
+    } else {
+      this.ownerTaskCounts.delete(ownerId);
+    }
+  }
+
+  /**
+   * Forget the last turn of owners with no tasks who haven't been served
+   * for LAST_SERVED_TTL_MS, so the map only holds recent users. Runs at
+   * most once per TTL.
+   */
+  private pruneLastServed(now: number): void {
+    if (now - this.lastPrunedAt < LAST_SERVED_TTL_MS) return;
+    this.lastPrunedAt = now;
+
+    for (const [ownerId, served] of this.lastServed) {
+      if (now - served.servedAt > LAST_SERVED_TTL_MS && !this.ownerTaskCounts.has(ownerId)) {
+        this.lastServed.delete(ownerId);
+      }
+    }
+  }
+
+  private getQueuedCount(): number {
+    return QUEUE_LANES.reduce((total, lane) => total + this.lanes[lane].length, 0);
+  }
+
+  /**
+   * Positions shift whenever a task joins or leaves any lane; report only
+   * the tasks whose position actually changed.
+   */
+  private notifyPositions(): void {
+    this.waitingOrder().forEach((task, index) => {
+      if (task.position === index + 1) return;
+      task.position = index + 1;
+      task.options.onPositionChange?.(task.position);
+    });
   }
 }
 
@@ -0,0 +1,122 @@
+/**
+ * Generation Job Store
+ *
+ * Persists async generation jobs in the Firestore `generationJobs`
+ * collection so a client that disconnects can poll for its result later.
+ *
+ * The job runner lives in this process, so we also track which jobs are
+ * still in flight here. A non-terminal job that this process is not running
+ * and that hasn't been touched for a while was interrupted (e.g. by a
+ * redeploy) and is reported as failed.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import { DesignSpec, GenerationJobStatus } from '../types';
+
+export interface GenerationJobResult {
+  imageId?: string;
+  imageUrl: string;
+  prompt: string;
+  generationTime: number;
+}
+
+export interface GenerationJob {
+  id: string;
+  userId: string;
+  status: GenerationJobStatus;
+  prompt: string;
+  language: string;
+  style: string | null;
+  designSpec: DesignSpec | null;
+  translatedPrompt?: string;
+  improvedPrompt?: string;
+  result?: GenerationJobResult;
+  error?: string;
+  errorCode?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Jobs untouched for this long that aren't running here are considered interrupted
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+const TERMINAL_STATUSES: GenerationJobStatus[] = ['succeeded', 'failed'];
+
+class GenerationJobStore {
+  private activeJobIds = new Set<string>();
+
+  private collection() {
+    return db.collection('generationJobs');
+  }
+
+  /**
+   * Create a new job in the `queued` state and mark it as running in this process.
+   */
+  async create(data: {
+    userId: string;
+    prompt: string;
+    language: string;
+    style: string | null;
+    designSpec: DesignSpec | null;
+  }): Promise<GenerationJob> {
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      ...data,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const { id, ...doc } = job;
+    await this.collection().doc(id).set(doc);
+    this.activeJobIds.add(id);
+    return job;
+  }
+
+  /**
+   * Apply a partial update to a job. Errors are logged, not thrown —
+   * a failed progress write must never fail the generation itself.
+   */
+  async update(
+    jobId: string,
+    updates: Partial<Omit<GenerationJob, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<void> {
+    if (updates.status && TERMINAL_STATUSES.includes(updates.status)) {
+      this.activeJobIds.delete(jobId);
+    }
+
+    try {
+      await this.collection().doc(jobId).update({
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      console.error(`❌ Error updating generation job ${jobId}:`, error.message);
+    }
+  }
+
+  /**
+   * Fetch a job by ID, or null if it doesn't exist.
+   */
+  async get(jobId: string): Promise<GenerationJob | null> {
+    const doc = await this.collection().doc(jobId).get();
+    if (!doc.exists) return null;
+
+    const job = { id: doc.id, ...doc.data() } as GenerationJob;
+
+    const isStale = Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+    if (!TERMINAL_STATUSES.includes(job.status) && !this.activeJobIds.has(job.id) && isStale) {
+      job.status = 'failed';
+      job.error = 'Job was interrupted before it completed. Please try again.';
+      await this.update(job.id, { status: job.status, error: job.error });
+    }
+
+    return job;
+  }
+}
+
+// Singleton instance
+const generationJobs = new GenerationJobStore();
+export default generationJobs;
@@ -0,0 +1,177 @@
+/**
+ * Text-to-Image Generation Pipeline
+ *
+ * The three stages behind POST /api/generate, shared by the synchronous
+ * response, async jobs and progress streaming:
+ *   1. Translate the prompt to English (non-English languages only)
+ *   2. Improve the prompt for image generation
+ *   3. Generate the image through the Gemini queue and persist it
+ *
+ * Callers observe progress through optional hooks; the pipeline itself
+ * knows nothing about HTTP, credits or Firestore.
+ */
+
+import geminiService from './gemini';
+import geminiQueue, { QueueLane } from './geminiQueue';
+import imageStorage, { StoredImage } from './imageStorage';
+import { StylePreset } from '../config/stylePresets';
+import { GenerationVariantResult } from '../types';
+
+export type PipelineStage = 'translating' | 'improving' | 'queued' | 'generating';
+
+export interface PipelineHooks {
+  /** Queue task ID, so callers can look up the queue position while waiting */
+  taskId?: string;
+  onStage?: (stage: PipelineStage) => void | Promise<void>;
+  onTranslated?: (englishPrompt: string) => void | Promise<void>;
+  onImproved?: (improvedPrompt: string) => void | Promise<void>;
+  /** Called synchronously by the queue whenever the waiting position changes */
+  onQueuePosition?: (position: number) => void;
+}
+
+export interface TextToImageInput {
+  prompt: string;
+  language: string;
+  stylePreset?: StylePreset | null;
+  /** Gemini queue lane for the image step (default: interactive) */
+  lane?: QueueLane;
+  /** User the image step runs for (queue fairness and per-user cap) */
+  ownerId?: string;
+  /** Aborting drops the image step if it is still waiting in the queue */
+  signal?: AbortSignal;
+}
+
+export interface TextToImageResult {
+  imageId: string;
+  imageUrl: string;
+  englishPrompt: string;
+  improvedPrompt: string;
+  generationTime: number; // in milliseconds
+}
+
+export interface TextToImageVariantsResult {
+  variants: GenerationVariantResult[];
+  englishPrompt: string;
+  improvedPrompt: string;
+  generationTime: number; // in milliseconds, until the last variant settled
+}
+
+const isEnglish = (language: string): boolean =>
+  language === 'en' || language === 'en-US' || language === 'en-IN';
+
+/**
+ * Persist a generated image and return its ID + URL.
+ */
+export const persistGeneratedImage = async (image: string): Promise<StoredImage> =>
+  imageStorage.saveDataUrl(image);
+
+/**
+ * Steps 1 and 2: translate (if needed) and improve the prompt.
+ */
+const preparePrompt = async (
+  input: TextToImageInput,
+  hooks: PipelineHooks
+): Promise<{ englishPrompt: string; improvedPrompt: string }> => {
+  const { prompt, language } = input;
+
+  // Step 1: Translate prompt to English if needed
+  let englishPrompt = prompt;
+  if (!isEnglish(language)) {
+    await hooks.onStage?.('translating');
+    console.log(`🌐 Translating prompt from ${language} to English...`);
+    englishPrompt = await geminiService.translateToEnglish(prompt, language);
+    await hooks.onTranslated?.(englishPrompt);
+  }
+
+  // Step 2: Improve prompt for better image generation
+  await hooks.onStage?.('improving');
+  console.log(`✨ Improving prompt...`);
+  const improvedPrompt = await geminiService.improvePrompt(englishPrompt, input.stylePreset || null);
+  await hooks.onImproved?.(improvedPrompt);
+
+  return { englishPrompt, improvedPrompt };
+};
+
+/**
+ * Run the full text-to-image pipeline.
+ * Throws if image generation fails; translation and prompt improvement
+ * degrade to their input on failure (see GeminiService).
+ */
+export const runTextToImage = async (
+  input: TextToImageInput,
+  hooks: PipelineHooks = {}
+): Promise<TextToImageResult> => {
+  const startTime = Date.now();
+  const { englishPrompt, improvedPrompt } = await preparePrompt(input, hooks);
+
+  // Step 3: Generate image (queued for concurrency control)
+  await hooks.onStage?.('queued');
+  console.log(`🎨 Generating image (queue: ${geminiQueue.getStatus().queuedCount} waiting)...`);
+  const generatedImage = await geminiQueue.enqueue(
+    () => geminiService.generateImage(improvedPrompt, input.language, input.stylePreset || null),
+    {
+      taskId: hooks.taskId,
+      lane: input.lane,
+      ownerId: input.ownerId,
+      signal: input.signal,
+      onPositionChange: hooks.onQueuePosition,
+      // onStart is synchronous — don't let a failing hook become an unhandled rejection
+      onStart: () => {
+        Promise.resolve(hooks.onStage?.('generating')).catch((error) =>
+          console.error('❌ Pipeline stage hook failed:', error.message)
+        );
+      },
+    }
+  );
+  const { imageId, imageUrl } = await persistGeneratedImage(generatedImage);
+
+  return {
+    imageId,
+    imageUrl,
+    englishPrompt,
+    improvedPrompt,
+    generationTime: Date.now() - startTime,
+  };
+};
+
+/**
+ * Run the pipeline once for the prompt, then generate `count` images from
+ * the same improved prompt in parallel through the Gemini queue.
+ * Individual variant failures are reported per variant, never thrown.
+ */
+export const runTextToImageVariants = async (
+  input: TextToImageInput,
+  count: number
+): Promise<TextToImageVariantsResult> => {
+  const startTime = Date.now();
+  const { englishPrompt, improvedPrompt } = await preparePrompt(input, {});
+
+  console.log(`🎨 Generating ${count} variants (queue: ${geminiQueue.getStatus().queuedCount} waiting)...`);
+  const settled = await Promise.allSettled(
+    Array.from({ length: count }, async () => {
+      const generatedImage = await geminiQueue.enqueue(
+        () => geminiService.generateImage(improvedPrompt, input.language, input.stylePreset || null),
+        { lane: input.lane, ownerId: input.ownerId, signal: input.signal }
+      );
+      return persistGeneratedImage(generatedImage);
+    })
+  );
+
+  const variants: GenerationVariantResult[] = settled.map((outcome, index) =>
+    outcome.status === 'fulfilled'
+      ? { index, status: 'succeeded', imageId: outcome.value.imageId, imageUrl: outcome.value.imageUrl }
+      : {
+          index,
+          status: 'failed',
+          error: outcome.reason?.message || 'Failed to generate image',
+          ...(outcome.reason?.code && { errorCode: outcome.reason.code }),
+        }
+  );
+
+  return {
+    variants,
+    englishPrompt,
+    improvedPrompt,
+    generationTime: Date.now() - startTime,
+  };
+};
@@ -0,0 +1,104 @@
+import { GoogleGenAI } from '@google/genai';
+import {
+  ImageProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageGenerationError,
+} from './types';
+
+// Finish reasons that mean the model refused rather than failed
+const BLOCKED_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+];
+
+/**
+ * Image provider backed by Gemini 2.5 Flash Image.
+ */
+export class GeminiImageProvider implements ImageProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = 'gemini-2.5-flash-image') {
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const parts: any[] = (request.images || []).map((image) => ({
+      inlineData: { mimeType: image.mimeType, data: image.base64 },
+    }));
+    parts.push({ text: request.prompt });
+
+    let response;
+    try {
+      response = await this.genAI.models.generateContent({
+        model: this.model,
+        contents: [{ role: 'user', parts }],
+      });
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: new ImageGenerationError(
+          `Image generation failed: ${error.message || 'upstream error'}`,
+          'IMAGE_PROVIDER_ERROR',
+          this.name,
+          error
+        ),
+      };
+    }
+
+    console.log('📦 Response received');
+    console.log('📊 Candidates:', response.candidates?.length || 0);
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      return {
+        ok: false,
+        error: new ImageGenerationError(`The prompt was blocked (${blockReason})`, 'CONTENT_BLOCKED', this.name),
+      };
+    }
+
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+      return {
+        ok: false,
+        error: new ImageGenerationError('No candidates in response', 'NO_IMAGE_RETURNED', this.name),
+      };
+    }
+
+    if (candidate.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+      return {
+        ok: false,
+        error: new ImageGenerationError(
+          `The image was blocked by content filters (${candidate.finishReason})`,
+          'CONTENT_BLOCKED',
+          this.name
+        ),
+      };
+    }
+
+    for (const part of candidate.content?.parts || []) {
+      if (part.inlineData?.data) {
+        console.log(`✅ Found image data (${part.inlineData.data.length} bytes)`);
+        return {
+          ok: true,
+          image: { mimeType: part.inlineData.mimeType || 'image/png', base64: part.inlineData.data },
+        };
+      }
+
+      if (part.text) {
+        console.log(`ℹ️  Found text part: ${part.text.substring(0, 100)}...`);
+      }
+    }
+
+    return {
+      ok: false,
+      error: new ImageGenerationError('No image data in response', 'NO_IMAGE_RETURNED', this.name),
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import config from '../../config/env';
+import { GeminiImageProvider } from './geminiImageProvider';
+import { StubImageProvider } from './stubImageProvider';
+import { ImageProvider } from './types';
+
+export * from './types';
+
+/**
+ * Create the image provider selected by config.imageProvider.
+ */
+export const createImageProvider = (): ImageProvider => {
+  if (config.imageProvider === 'stub') {
+    console.log('🧪 Using stub image provider (no Gemini image calls)');
+    return new StubImageProvider();
+  }
+  return new GeminiImageProvider(config.geminiApiKey);
+};
@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import {
+  ImageProvider,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageGenerationError,
+} from './types';
+
+const STUB_IMAGE_SIZE = 256;
+
+// Put this marker in a prompt to make the stub fail, e.g. to exercise refunds
+const FAILURE_MARKER = '[stub:fail]';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+/**
+ * Encode a square RGB PNG with a vertical gradient between two colors.
+ */
+const renderGradientPng = (size: number, from: number[], to: number[]): Buffer => {
+  const rowLength = 1 + size * 3; // filter byte + RGB pixels
+  const raw = Buffer.alloc(rowLength * size);
+
+  for (let y = 0; y < size; y++) {
+    const t = y / (size - 1);
+    const color = from.map((channel, i) => Math.round(channel + (to[i] - channel) * t));
+    for (let x = 0; x < size; x++) {
+      raw.set(color, y * rowLength + 1 + x * 3);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+/**
+ * Offline image provider for local development and tests.
+ * Returns a small gradient PNG whose colors are derived from a hash of the
+ * request, so the same request always yields the same image. No network.
+ */
+export class StubImageProvider implements ImageProvider {
+  readonly name = 'stub';
+
+  async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    if (request.prompt.includes(FAILURE_MARKER)) {
+      return {
+        ok: false,
+        error: new ImageGenerationError('Stub provider failure requested', 'IMAGE_PROVIDER_ERROR', this.name),
+      };
+    }
+
+    const hash = createHash('sha256').update(request.prompt);
+    for (const image of request.images || []) {
+      hash.update(image.base64);
+    }
+    const digest = hash.digest();
+
+    const png = renderGradientPng(
+      STUB_IMAGE_SIZE,
+      [digest[0], digest[1], digest[2]],
+      [digest[3], digest[4], digest[5]]
+    );
+
+    console.log(`🧪 Stub image generated (${png.length} bytes)`);
+    return { ok: true, image: { mimeType: 'image/png', base64: png.toString('base64') } };
+  }
+}
@@ -0,0 +1,53 @@
+import { AppError } from '../../middleware/errorHandler';
+
+/**
+ * A base64 image passed to or returned from an image provider.
+ */
+export interface ProviderImage {
+  mimeType: string;
+  base64: string;
+}
+
+/**
+ * One image generation call: optional reference images (in order)
+ * followed by the text prompt.
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  images?: ProviderImage[];
+}
+
+export type ImageGenerationErrorCode =
+  | 'IMAGE_PROVIDER_ERROR' // the upstream call failed
+  | 'NO_IMAGE_RETURNED' // the call succeeded but produced no image
+  | 'CONTENT_BLOCKED'; // the provider refused the prompt or output
+
+/**
+ * Typed failure from an image provider. Extends AppError so routes can
+ * rethrow it as-is and clients receive the code.
+ */
+export class ImageGenerationError extends AppError {
+  declare code: ImageGenerationErrorCode;
+  provider: string;
+  cause?: unknown; // original upstream error, if any
+
+  constructor(message: string, code: ImageGenerationErrorCode, provider: string, cause?: unknown) {
+    super(message, code === 'CONTENT_BLOCKED' ? 422 : 502, code);
+    this.name = 'ImageGenerationError';
+    this.provider = provider;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Explicit result of a generation call — providers never throw and never
+ * substitute a placeholder image on failure.
+ */
+export type ImageGenerationResult =
+  | { ok: true; image: ProviderImage }
+  | { ok: false; error: ImageGenerationError };
+
+export interface ImageProvider {
+  readonly name: string;
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
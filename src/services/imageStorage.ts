@@ -0,0 +1,178 @@
+/**
+ * Generated Image Storage
+ *
+ * Persists every generated image under a stable ID so responses can carry a
+ * short URL instead of a multi-megabyte base64 data URL.
+ *
+ * Backends:
+ *   - gcs:   Google Cloud Storage bucket (config.gcsBucketName), served via
+ *            short-lived V4 signed URLs.
+ *   - local: Filesystem directory (config.localImageDir) for dev and tests,
+ *            served by GET /api/images/:id.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Storage, Bucket } from '@google-cloud/storage';
+import config from '../config/env';
+import { parseDataUrl, extensionForMimeType } from '../utils/imageData';
+
+export interface StoredImage {
+  imageId: string;
+  imageUrl: string;
+}
+
+export interface LoadedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+interface ImageStorageBackend {
+  readonly name: string;
+  save(imageId: string, data: Buffer, mimeType: string): Promise<void>;
+  load(imageId: string): Promise<LoadedImage | null>;
+  getUrl(imageId: string): Promise<string>;
+}
+
+// Image IDs are UUIDs — anything else is rejected before touching storage
+const IMAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+class GcsImageStorage implements ImageStorageBackend {
+  readonly name = 'gcs';
+  private bucket: Bucket;
+
+  constructor(bucketName: string) {
+    const storage = new Storage({
+      projectId: config.googleCloudProjectId || undefined,
+      keyFilename: config.googleApplicationCredentials || undefined,
+    });
+    this.bucket = storage.bucket(bucketName);
+  }
+
+  private objectName(imageId: string): string {
+    return `generated-images/${imageId}`;
+  }
+
+  async save(imageId: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.bucket.file(this.objectName(imageId)).save(data, {
+      contentType: mimeType,
+      resumable: false,
+    });
+  }
+
+  async load(imageId: string): Promise<LoadedImage | null> {
+    const file = this.bucket.file(this.objectName(imageId));
+    const [exists] = await file.exists();
+    if (!exists) return null;
+
+    const [[data], [metadata]] = await Promise.all([file.download(), file.getMetadata()]);
+    return { data, mimeType: metadata.contentType || 'image/png' };
+  }
+
+  async getUrl(imageId: string): Promise<string> {
+    const [url] = await this.bucket.file(this.objectName(imageId)).getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: Date.now() + config.signedUrlTtlMinutes * 60 * 1000,
+    });
+    return url;
+  }
+}
+
+class LocalImageStorage implements ImageStorageBackend {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async save(imageId: string, data: Buffer, mimeType: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${imageId}.${extensionForMimeType(mimeType)}`;
+    await fs.writeFile(path.join(this.directory, fileName), data);
+  }
+
+  async load(imageId: string): Promise<LoadedImage | null> {
+    for (const [extension, mimeType] of Object.entries(MIME_BY_EXTENSION)) {
+      try {
+        const data = await fs.readFile(path.join(this.directory, `${imageId}.${extension}`));
+        return { data, mimeType };
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return null;
+  }
+
+  async getUrl(imageId: string): Promise<string> {
+    return `${config.publicBaseUrl}/api/images/${imageId}`;
+  }
+}
+
+class ImageStorage {
+  private backend: ImageStorageBackend;
+
+  constructor() {
+    if (config.imageStorageBackend === 'gcs' && config.gcsBucketName) {
+      this.backend = new GcsImageStorage(config.gcsBucketName);
+    } else {
+      if (config.imageStorageBackend === 'gcs') {
+        console.warn('⚠️  IMAGE_STORAGE_BACKEND=gcs but GCS_BUCKET_NAME is not set — using local storage');
+      }
+      this.backend = new LocalImageStorage(config.localImageDir);
+    }
+    console.log(`🗄️  Image storage initialized (backend: ${this.backend.name})`);
+  }
+
+  /**
+   * Whether the images are served by this API (GET /api/images/:id)
+   * rather than directly from the storage provider.
+   */
+  isServedLocally(): boolean {
+    return this.backend.name === 'local';
+  }
+
+  isValidImageId(imageId: string): boolean {
+    return IMAGE_ID_PATTERN.test(imageId);
+  }
+
+  /**
+   * Persist a base64 data URL (as returned by GeminiService) and return
+   * its stable ID plus a URL the client can load it from.
+   */
+  async saveDataUrl(dataUrl: string): Promise<StoredImage> {
+    const { mimeType, base64 } = parseDataUrl(dataUrl);
+    const imageId = randomUUID();
+
+    await this.backend.save(imageId, Buffer.from(base64, 'base64'), mimeType);
+    const imageUrl = await this.backend.getUrl(imageId);
+
+    console.log(`💾 Stored generated image ${imageId} (${this.backend.name})`);
+    return { imageId, imageUrl };
+  }
+
+  /**
+   * Resolve a fresh URL for a previously stored image.
+   * Signed URLs expire, so callers should not cache these long-term.
+   */
+  async getUrl(imageId: string): Promise<string> {
+    return this.backend.getUrl(imageId);
+  }
+
+  /**
+   * Read a stored image back, or null if the ID is unknown.
+   */
+  async load(imageId: string): Promise<LoadedImage | null> {
+    if (!this.isValidImageId(imageId)) return null;
+    return this.backend.load(imageId);
+  }
+}
+
+// Singleton instance
+const imageStorage = new ImageStorage();
+export default imageStorage;
@@ -0,0 +1,83 @@
+/**
+ * In-app Notifications
+ *
+ * Per-user notifications, e.g. when a credit request is decided.
+ *
+ * Firestore: userUsage/{uid}/notifications/{id}
+ *   { type, title, message, data, read, createdAt }
+ * Listing unread ones needs a composite index on (read, createdAt desc).
+ */
+
+import { db } from '../config/firebaseAdmin';
+
+export type NotificationType = 'credit-request-decided';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  read: boolean;
+  createdAt: string;
+}
+
+export type NewNotification = Pick<Notification, 'type' | 'title' | 'message' | 'data'>;
+
+class NotificationStore {
+  private collection(uid: string) {
+    return db.collection('userUsage').doc(uid).collection('notifications');
+  }
+
+  /**
+   * Add a notification inside the caller's transaction, so it commits
+   * together with whatever it reports.
+   */
+  add(transaction: FirebaseFirestore.Transaction, uid: string, notification: NewNotification): void {
+    transaction.set(this.collection(uid).doc(), {
+      ...notification,
+      read: false,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * The user's most recent notifications, newest first, plus the unread count.
+   */
+  async list(uid: string, options: { limit: number; unreadOnly: boolean }): Promise<{ notifications: Notification[]; unread: number }> {
+    let query: FirebaseFirestore.Query = this.collection(uid);
+    if (options.unreadOnly) query = query.where('read', '==', false);
+
+    const [snap, unreadSnap] = await Promise.all([
+      query.orderBy('createdAt', 'desc').limit(options.limit).get(),
+      this.collection(uid).where('read', '==', false).count().get(),
+    ]);
+
+    const notifications = snap.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Notification);
+
+    return { notifications, unread: unreadSnap.data().count };
+  }
+
+  /**
+   * Mark notifications as read — the given IDs, or all unread ones.
+   * Returns how many were updated.
+   */
+  async markRead(uid: string, ids?: string[]): Promise<number> {
+    const refs = ids
+      ? ids.map((id) => this.collection(uid).doc(id))
+      : (await this.collection(uid).where('read', '==', false).get()).docs.map((doc) => doc.ref);
+    if (refs.length === 0) return 0;
+
+    const docs = await db.getAll(...refs);
+    const unread = docs.filter((doc) => doc.exists && !doc.data()!.read);
+
+    const batch = db.batch();
+    unread.forEach((doc) => batch.update(doc.ref, { read: true }));
+    await batch.commit();
+    return unread.length;
+  }
+}
+
+// Singleton instance
+const notifications = new NotificationStore();
+export default notifications;
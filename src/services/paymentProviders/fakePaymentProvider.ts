@@ -0,0 +1,79 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  PaymentProvider,
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentWebhookError,
+} from './types';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+/**
+ * Local stand-in for a real payment provider, for development and tests.
+ * Checkouts never leave the server: the checkout URL points at
+ * POST /api/payments/fake/complete/:orderId, which builds an event, signs
+ * it with the webhook secret and feeds it through the normal webhook path.
+ * Signature: hex HMAC-SHA256 of the raw body, in the X-Fake-Signature header.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private webhookSecret: string, private publicBaseUrl: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    return {
+      providerOrderId: `fake_order_${randomUUID()}`,
+      checkoutUrl: `${this.publicBaseUrl}/api/payments/fake/complete/${request.orderId}`,
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof signature !== 'string') {
+      throw new PaymentWebhookError('Missing webhook signature');
+    }
+
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new PaymentWebhookError('Invalid webhook signature');
+    }
+
+    let event: PaymentEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new PaymentWebhookError('Webhook body is not valid JSON');
+    }
+    if (!event.id || !event.orderId || (event.type !== 'payment.succeeded' && event.type !== 'payment.failed')) {
+      throw new PaymentWebhookError('Webhook event is missing required fields');
+    }
+    return event;
+  }
+
+  /**
+   * Build a signed webhook payload, as the provider would send it.
+   */
+  createSignedEvent(
+    type: PaymentEventType,
+    order: { id: string; providerOrderId: string; amount: number; currency: string }
+  ): { rawBody: Buffer; headers: Record<string, string> } {
+    const event: PaymentEvent = {
+      id: `fake_evt_${randomUUID()}`,
+      type,
+      orderId: order.id,
+      providerOrderId: order.providerOrderId,
+      providerPaymentId: type === 'payment.succeeded' ? `fake_pay_${randomUUID()}` : null,
+      amount: order.amount,
+      currency: order.currency,
+    };
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return { rawBody, headers: { [FAKE_SIGNATURE_HEADER]: this.sign(rawBody) } };
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+}
@@ -0,0 +1,24 @@
+import config from '../../config/env';
+import { FakePaymentProvider } from './fakePaymentProvider';
+import { PaymentProvider } from './types';
+
+export * from './types';
+
+/**
+ * Whether a usable payment provider is configured. The fake provider takes
+ * no real payments, so it is never used in production.
+ */
+export const paymentsAvailable = (): boolean => config.nodeEnv !== 'production';
+
+/**
+ * Create the payment provider selected by config.paymentProvider.
+ * A real provider must refuse to start without PAYMENT_WEBHOOK_SECRET —
+ * the development default is public.
+ */
+export const createPaymentProvider = (): PaymentProvider => {
+  if (!paymentsAvailable()) {
+    throw new Error('The fake payment provider cannot be used in production');
+  }
+  console.log('🧪 Using fake payment provider (no real charges)');
+  return new FakePaymentProvider(config.paymentWebhookSecret, config.publicBaseUrl);
+};
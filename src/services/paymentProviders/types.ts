@@ -0,0 +1,56 @@
+import { AppError } from '../../middleware/errorHandler';
+
+/**
+ * What the provider needs to start a checkout for one of our orders.
+ */
+export interface CheckoutRequest {
+  orderId: string; // our creditOrders ID, echoed back in webhook events
+  amount: number; // minor units
+  currency: string;
+  description: string;
+  customerEmail: string;
+}
+
+export interface CheckoutSession {
+  providerOrderId: string;
+  checkoutUrl: string;
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed';
+
+/**
+ * A verified webhook event.
+ */
+export interface PaymentEvent {
+  id: string; // provider's event ID — webhooks are processed once per ID
+  type: PaymentEventType;
+  orderId: string;
+  providerOrderId: string;
+  providerPaymentId: string | null;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * A payment provider: creates checkouts and verifies the signed webhooks
+ * it sends back.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /**
+   * Verify the webhook signature against the exact bytes received and parse
+   * the event. Throws PaymentWebhookError if the signature is invalid.
+   */
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentEvent;
+}
+
+/**
+ * Rejected webhook (bad signature or malformed payload).
+ */
+export class PaymentWebhookError extends AppError {
+  constructor(message: string) {
+    super(message, 400, 'INVALID_WEBHOOK');
+    this.name = 'PaymentWebhookError';
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Credit Pack Payments
+ *
+ * Purchase flow:
+ *   1. createOrder   → creditOrders/{orderId} (pending) + provider checkout URL
+ *   2. the user pays on the provider's checkout page
+ *   3. handleWebhook → the provider's signed event confirms the payment;
+ *      the pack's credits are added (ledger reason 'purchase') and a
+ *      receipt is written, all in one transaction
+ *
+ * Webhooks are processed once per provider event ID (paymentEvents/{eventId}),
+ * and an order is credited at most once, so provider retries are harmless.
+ *
+ * Only the local fake provider exists so far. It takes no real payments and
+ * is refused in production, where the payment routes aren't mounted, so
+ * purchases work only in development until a real provider is added.
+ *
+ * Firestore layout:
+ *   creditOrders/{orderId}     { userId, email, packId, credits, amount, currency, provider,
+ *                                providerOrderId, checkoutUrl, status, receiptId, createdAt, paidAt }
+ *   paymentEvents/{eventId}    { type, orderId, outcome, processedAt }
+ *   receipts/{receiptId}       { orderId, userId, email, packId, credits, amount, currency,
+ *                                provider, providerPaymentId, eventId, issuedAt }
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import { CreditPack } from '../config/creditPacks';
+import creditLedger from './creditLedger';
+import { newUsageDoc } from './creditTopUp';
+import { createPaymentProvider, PaymentEvent, PaymentProvider } from './paymentProviders';
+
+export type CreditOrderStatus = 'pending' | 'paid' | 'failed';
+
+export interface CreditOrder {
+  id: string;
+  userId: string;
+  email: string;
+  packId: string;
+  credits: number;
+  amount: number;
+  currency: string;
+  provider: string;
+  providerOrderId: string;
+  checkoutUrl: string;
+  status: CreditOrderStatus;
+  receiptId: string | null;
+  createdAt: string;
+  paidAt: string | null;
+}
+
+export interface Receipt {
+  id: string;
+  orderId: string;
+  userId: string;
+  email: string;
+  packId: string;
+  credits: number;
+  amount: number;
+  currency: string;
+  provider: string;
+  providerPaymentId: string | null;
+  eventId: string;
+  issuedAt: string;
+}
+
+export type WebhookOutcome = 'credited' | 'failed' | 'already-paid' | 'amount-mismatch' | 'unknown-order' | 'ignored';
+
+export interface WebhookResult {
+  duplicate: boolean;
+  outcome: WebhookOutcome;
+  orderId: string;
+}
+
+class PaymentService {
+  private _provider: PaymentProvider | null = null;
+
+  // Created on first use, so importing this module never touches provider config
+  get provider(): PaymentProvider {
+    if (!this._provider) this._provider = createPaymentProvider();
+    return this._provider;
+  }
+
+  /**
+   * Create a pending order for a credit pack and start a provider checkout.
+   */
+  async createOrder(user: { uid: string; email: string }, pack: CreditPack): Promise<CreditOrder> {
+    const id = randomUUID();
+    const checkout = await this.provider.createCheckout({
+      orderId: id,
+      amount: pack.amount,
+      currency: pack.currency,
+      description: `${pack.label} — ${pack.credits} credits`,
+      customerEmail: user.email,
+    });
+
+    const data: Omit<CreditOrder, 'id'> = {
+      userId: user.uid,
+      email: user.email,
+      packId: pack.id,
+      credits: pack.credits,
+      amount: pack.amount,
+      currency: pack.currency,
+      provider: this.provider.name,
+      providerOrderId: checkout.providerOrderId,
+      checkoutUrl: checkout.checkoutUrl,
+      status: 'pending',
+      receiptId: null,
+      createdAt: new Date().toISOString(),
+      paidAt: null,
+    };
+
+    await db.collection('creditOrders').doc(id).set(data);
+    return { id, ...data };
+  }
+
+  /**
+   * A user's order, or null if it doesn't exist or belongs to someone else.
+   */
+  async getOrder(orderId: string, uid?: string): Promise<CreditOrder | null> {
+    const doc = await db.collection('creditOrders').doc(orderId).get();
+    if (!doc.exists) return null;
+    const order = { id: doc.id, ...doc.data() } as CreditOrder;
+    return uid && order.userId !== uid ? null : order;
+  }
+
+  async listReceipts(uid: string): Promise<Receipt[]> {
+    const snap = await db.collection('receipts').where('userId', '==', uid).get();
+    return snap.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as Receipt)
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  }
+
+  async getReceipt(receiptId: string, uid: string): Promise<Receipt | null> {
+    const doc = await db.collection('receipts').doc(receiptId).get();
+    if (!doc.exists || doc.data()!.userId !== uid) return null;
+    return { id: doc.id, ...doc.data() } as Receipt;
+  }
+
+  /**
+   * Verify and apply a provider webhook. Throws PaymentWebhookError (400)
+   * if the signature doesn't match.
+   */
+  async handleWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<WebhookResult> {
+    const event = this.provider.verifyWebhook(rawBody, headers);
+    const result = await this.applyEvent(event);
+
+    const icon = result.outcome === 'credited' ? '💳' : '⚠️ ';
+    console.log(`${icon} Payment event ${event.id} (${event.type}) for order ${event.orderId}: ${result.duplicate ? 'duplicate' : result.outcome}`);
+    return result;
+  }
+
+  private async applyEvent(event: PaymentEvent): Promise<WebhookResult> {
+    const eventRef = db.collection('paymentEvents').doc(event.id);
+    const orderRef = db.collection('creditOrders').doc(event.orderId);
+
+    return db.runTransaction(async (transaction): Promise<WebhookResult> => {
+      const eventDoc = await transaction.get(eventRef);
+      if (eventDoc.exists) {
+        return { duplicate: true, outcome: eventDoc.data()!.outcome, orderId: event.orderId };
+      }
+
+      const orderDoc = await transaction.get(orderRef);
+      const order = orderDoc.exists ? (orderDoc.data() as Omit<CreditOrder, 'id'>) : null;
+      const usageRef = order ? db.collection('userUsage').doc(order.userId) : null;
+      const usageDoc = usageRef ? await transaction.get(usageRef) : null;
+
+      const now = new Date().toISOString();
+      let outcome: WebhookOutcome;
+
+      if (!order || order.providerOrderId !== event.providerOrderId) {
+        outcome = 'unknown-order';
+      } else if (order.status === 'paid') {
+        outcome = event.type === 'payment.succeeded' ? 'already-paid' : 'ignored';
+      } else if (event.type === 'payment.failed') {
+        outcome = 'failed';
+        transaction.update(orderRef, { status: 'failed' });
+      } else if (event.amount !== order.amount || event.currency !== order.currency) {
+        outcome = 'amount-mismatch';
+      } else {
+        outcome = 'credited';
+        const receiptRef = db.collection('receipts').doc();
+        transaction.set(receiptRef, {
+          orderId: event.orderId,
+          userId: order.userId,
+          email: order.email,
+          packId: order.packId,
+          credits: order.credits,
+          amount: order.amount,
+          currency: order.currency,
+          provider: order.provider,
+          providerPaymentId: event.providerPaymentId,
+          eventId: event.id,
+          issuedAt: now,
+        });
+        transaction.update(orderRef, { status: 'paid', paidAt: now, receiptId: receiptRef.id });
+
+        const usageData = usageDoc!.data();
+        const newCredits = (usageData?.credits ?? 0) + order.credits;
+        creditLedger.applyChange(
+          transaction,
+          order.userId,
+          usageData,
+          usageDoc!.exists ? { credits: newCredits } : newUsageDoc(order.email, newCredits),
+          { delta: order.credits, reason: 'purchase', relatedId: event.orderId, actor: 'system', balanceAfter: newCredits }
+        );
+      }
+
+      transaction.set(eventRef, { type: event.type, orderId: event.orderId, outcome, processedAt: now });
+      return { duplicate: false, outcome, orderId: event.orderId };
+    });
+  }
+}
+
+// Singleton instance
+const payments = new PaymentService();
+export default payments;
@@ -0,0 +1,218 @@
+/**
+ * Pending Charges
+ *
+ * When the credit transaction fails (Firestore unavailable) and the failure
+ * policy ('open' or 'grace'; the default 'closed' rejects the request
+ * instead) still lets the generation run, the charge can't be applied. It is
+ * recorded here instead and settled against the balance once Firestore is
+ * healthy again.
+ *
+ * Charges are kept in memory until the reconciler has written them to
+ * Firestore, since the outage that created them may also block that write.
+ * Charges still in memory are lost if the process restarts.
+ *
+ * Lifecycle (pendingCharges/{id}.status):
+ *   open      → the generation is still running
+ *   pending   → the generation finished; `amount` is what it consumed and
+ *               `generations` how many images it produced
+ *   cancelled → the generation failed, nothing to charge
+ *   settled   → deducted from the balance (chargedAmount; anything the user
+ *               couldn't cover is recorded as waivedAmount)
+ * An `open` charge older than the credit hold TTL belongs to a request that
+ * never finished, and is settled in full.
+ *
+ * The grace allowance is tracked per process: the credits a user has
+ * consumed through unsettled charges on this server. With several
+ * instances a user can get the allowance on each of them.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import config from '../config/env';
+import creditLedger from './creditLedger';
+
+export type PendingChargeStatus = 'open' | 'pending' | 'cancelled' | 'settled';
+
+export interface PendingCharge {
+  id: string;
+  userId: string;
+  amount: number;
+  generations?: number;
+  status: PendingChargeStatus;
+  createdAt: string;
+  chargedAmount?: number;
+  waivedAmount?: number;
+  settledAt?: string;
+}
+
+export interface ReconcileResult {
+  settled: number;
+  charged: number;
+  waived: number;
+}
+
+class PendingChargeStore {
+  // Charges not yet written to Firestore, or written but not yet final
+  private local = new Map<string, PendingCharge>();
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private reconciling = false;
+
+  private collection() {
+    return db.collection('pendingCharges');
+  }
+
+  /**
+   * Record a charge the credit limiter could not apply. Returns its ID.
+   */
+  record(uid: string, amount: number): string {
+    const charge: PendingCharge = {
+      id: randomUUID(),
+      userId: uid,
+      amount,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    };
+    this.local.set(charge.id, charge);
+    console.warn(`⚠️  Recorded pending charge ${charge.id} of ${amount} credit(s) for user ${uid}`);
+    return charge.id;
+  }
+
+  /**
+   * The generation finished, producing `generations` images and consuming
+   * `consumed` of the charge's credits.
+   */
+  settle(chargeId: string, consumed: number, generations: number = consumed > 0 ? 1 : 0): void {
+    const charge = this.local.get(chargeId);
+    if (!charge || charge.status !== 'open') return;
+
+    const used = Math.min(Math.max(consumed, 0), charge.amount);
+    if (used === 0) {
+      charge.status = 'cancelled';
+    } else {
+      charge.amount = used;
+      charge.generations = generations;
+      charge.status = 'pending';
+    }
+  }
+
+  /**
+   * Credits this user has consumed on this instance that are not settled yet.
+   */
+  unsettledCredits(uid: string): number {
+    let total = 0;
+    for (const charge of this.local.values()) {
+      if (charge.userId === uid && (charge.status === 'open' || charge.status === 'pending')) {
+        total += charge.amount;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Write local charges to Firestore, then settle every finished charge
+   * against its user's balance. Throws if Firestore is still unavailable.
+   */
+  async reconcile(): Promise<ReconcileResult> {
+    await this.flush();
+
+    const snap = await this.collection().where('status', 'in', ['open', 'pending']).get();
+    const staleBefore = new Date(Date.now() - config.creditHoldTtlMs).toISOString();
+    const due = snap.docs.filter((doc) => {
+      const charge = doc.data() as PendingCharge;
+      return charge.status === 'pending' || charge.createdAt <= staleBefore;
+    });
+
+    const result: ReconcileResult = { settled: 0, charged: 0, waived: 0 };
+    for (const doc of due) {
+      const outcome = await this.settleInFirestore(doc.id);
+      if (!outcome) continue;
+      this.local.delete(doc.id);
+      result.settled += 1;
+      result.charged += outcome.charged;
+      result.waived += outcome.waived;
+    }
+    return result;
+  }
+
+  /**
+   * Reconcile every pendingChargeReconcileIntervalMs.
+   */
+  startReconciler(): void {
+    if (this.reconcileTimer) return;
+
+    const run = async () => {
+      if (this.reconciling) return;
+      this.reconciling = true;
+      try {
+        const result = await this.reconcile();
+        if (result.settled > 0) {
+          console.log(`🧾 Settled ${result.settled} pending charge(s): ${result.charged} credit(s) charged, ${result.waived} waived`);
+        }
+      } catch (error: any) {
+        console.error(`❌ Pending charge reconciliation failed (${this.local.size} held locally):`, error.message);
+      } finally {
+        this.reconciling = false;
+      }
+    };
+
+    void run();
+    this.reconcileTimer = setInterval(run, config.pendingChargeReconcileIntervalMs);
+  }
+
+  private async flush(): Promise<void> {
+    for (const charge of [...this.local.values()]) {
+      const { id, ...data } = charge;
+      await this.collection().doc(id).set(data, { merge: true });
+      // Cancelled charges are final once written; open and pending ones stay until settled
+      if (charge.status === 'cancelled') this.local.delete(id);
+    }
+  }
+
+  private async settleInFirestore(chargeId: string): Promise<{ charged: number; waived: number } | null> {
+    const chargeRef = this.collection().doc(chargeId);
+
+    return db.runTransaction(async (transaction) => {
+      const chargeDoc = await transaction.get(chargeRef);
+      const charge = chargeDoc.data() as Omit<PendingCharge, 'id'> | undefined;
+      if (!charge || (charge.status !== 'open' && charge.status !== 'pending')) return null;
+
+      const usageRef = db.collection('userUsage').doc(charge.userId);
+      const usageDoc = await transaction.get(usageRef);
+      const data = usageDoc.data();
+
+      // Charge what the balance can cover; the rest is waived rather than
+      // pushing the balance below zero
+      const balance = data?.credits ?? 0;
+      const charged = Math.min(charge.amount, Math.max(balance, 0));
+      const waived = charge.amount - charged;
+      // A stale open charge never reported its outcome; count it as one generation
+      const updates = { totalGenerations: (data?.totalGenerations || 0) + (charge.generations ?? 1) };
+
+      if (charged > 0) {
+        const newCredits = balance - charged;
+        creditLedger.applyChange(
+          transaction,
+          charge.userId,
+          data,
+          { ...updates, credits: newCredits },
+          { delta: -charged, reason: 'outage-charge', relatedId: chargeId, actor: 'system', balanceAfter: newCredits }
+        );
+      } else {
+        transaction.set(usageRef, updates, { merge: true });
+      }
+
+      transaction.update(chargeRef, {
+        status: 'settled',
+        chargedAmount: charged,
+        waivedAmount: waived,
+        settledAt: new Date().toISOString(),
+      });
+
+      return { charged, waived };
+    });
+  }
+}
+
+// Singleton instance
+const pendingCharges = new PendingChargeStore();
+export default pendingCharges;
@@ -0,0 +1,89 @@
+/**
+ * Pricing Service
+ *
+ * The effective credit price of each operation: the defaults from
+ * config/pricing, overridden by whatever admins stored in Firestore.
+ *
+ * Firestore: appConfig/pricing
+ *   { credits: { [operation]: number }, updatedAt, updatedBy }
+ *
+ * The overrides are cached for a minute so the credit limiter doesn't read
+ * Firestore on every request. If they can't be loaded, the last known
+ * table (or the defaults) is used.
+ */
+
+import { db } from '../config/firebaseAdmin';
+import { DEFAULT_PRICING, OperationPrice, PricedOperation, isPricedOperation, minimumCredits } from '../config/pricing';
+
+export type PricingTable = Record<PricedOperation, OperationPrice>;
+
+// What a request costs, and the operation it counts as for plan checks
+export interface CreditQuote {
+  operation: PricedOperation;
+  credits: number;
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+class PricingService {
+  private table: PricingTable = DEFAULT_PRICING;
+  private loadedAt = 0;
+
+  private doc() {
+    return db.collection('appConfig').doc('pricing');
+  }
+
+  /**
+   * The effective pricing table.
+   */
+  async getTable(): Promise<PricingTable> {
+    if (Date.now() - this.loadedAt < CACHE_TTL_MS) return this.table;
+
+    try {
+      const snap = await this.doc().get();
+      this.table = this.merge(snap.data()?.credits || {});
+    } catch (error: any) {
+      console.error('❌ Error loading pricing overrides, using last known prices:', error.message);
+    }
+    this.loadedAt = Date.now();
+    return this.table;
+  }
+
+  /**
+   * Credits for `quantity` units of an operation.
+   */
+  async cost(operation: PricedOperation, quantity: number = 1): Promise<number> {
+    const table = await this.getTable();
+    return table[operation].credits * quantity;
+  }
+
+  /**
+   * Quote for `quantity` units of an operation.
+   */
+  async quote(operation: PricedOperation, quantity: number = 1): Promise<CreditQuote> {
+    return { operation, credits: await this.cost(operation, quantity) };
+  }
+
+  /**
+   * Store price overrides (merged with existing ones) and return the new table.
+   */
+  async update(credits: Partial<Record<PricedOperation, number>>, updatedBy: string): Promise<PricingTable> {
+    await this.doc().set({ credits, updatedAt: new Date().toISOString(), updatedBy }, { merge: true });
+    this.loadedAt = 0;
+    return this.getTable();
+  }
+
+  private merge(overrides: Record<string, unknown>): PricingTable {
+    const table = { ...DEFAULT_PRICING };
+    for (const [operation, credits] of Object.entries(overrides)) {
+      if (isPricedOperation(operation) && Number.isInteger(credits) && (credits as number) >= minimumCredits(operation)) {
+        table[operation] = { ...table[operation], credits: credits as number };
+      }
+    }
+    return table;
+  }
+}
+
+// Singleton instance
+const pricing = new PricingService();
+export default pricing;
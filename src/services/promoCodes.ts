@@ -0,0 +1,183 @@
+/**
+ * Promo Codes
+ *
+ * Admin-created codes that add credits when redeemed, e.g. for campus
+ * events and fashion-school partnerships.
+ *
+ * Firestore layout:
+ *   promoCodes/{CODE}                        { code, credits, maxRedemptions, perUserLimit,
+ *                                              expiresAt, emailDomain, active, redemptionCount,
+ *                                              createdBy, createdAt, updatedAt }
+ *   promoCodes/{CODE}/redemptions/{uid}      { userId, email, count, credits, lastRedeemedAt }
+ *
+ * A redemption checks every limit and adds the credits (ledger reason
+ * 'promo-code') in one transaction, so concurrent redemptions can't
+ * exceed maxRedemptions or perUserLimit.
+ */
+
+import { db } from '../config/firebaseAdmin';
+import { AppError } from '../middleware/errorHandler';
+import creditLedger from './creditLedger';
+import { newUsageDoc } from './creditTopUp';
+
+export interface PromoCode {
+  code: string;
+  credits: number;
+  maxRedemptions: number | null; // null = unlimited
+  perUserLimit: number;
+  expiresAt: string | null;
+  emailDomain: string | null; // e.g. "nift.ac.in" — only verified emails at this domain may redeem
+  active: boolean;
+  redemptionCount: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PromoCodeSettings = Pick<PromoCode, 'credits' | 'maxRedemptions' | 'perUserLimit' | 'expiresAt' | 'emailDomain'>;
+
+export interface RedemptionResult {
+  code: string;
+  credits: number; // credits added
+  balance: number;
+}
+
+const CODE_PATTERN = /^[A-Z0-9-]{3,32}$/;
+
+/**
+ * Canonical form of a code as typed by a user.
+ */
+export const normalizeCode = (code: unknown): string =>
+  typeof code === 'string' ? code.trim().toUpperCase() : '';
+
+export const isValidCodeFormat = (code: string): boolean => CODE_PATTERN.test(code);
+
+const emailDomainOf = (email: string): string => email.split('@')[1]?.toLowerCase() || '';
+
+class PromoCodeStore {
+  private collection() {
+    return db.collection('promoCodes');
+  }
+
+  async create(code: string, settings: PromoCodeSettings, createdBy: string): Promise<PromoCode> {
+    const ref = this.collection().doc(code);
+    const now = new Date().toISOString();
+    const promo: PromoCode = {
+      code,
+      ...settings,
+      active: true,
+      redemptionCount: 0,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await ref.create(promo);
+    } catch (error: any) {
+      // gRPC ALREADY_EXISTS
+      if (error.code === 6) throw new AppError(`Promo code ${code} already exists`, 409);
+      throw error;
+    }
+    return promo;
+  }
+
+  async list(): Promise<PromoCode[]> {
+    const snap = await this.collection().orderBy('createdAt', 'desc').get();
+    return snap.docs.map((doc) => doc.data() as PromoCode);
+  }
+
+  async get(code: string): Promise<PromoCode | null> {
+    const doc = await this.collection().doc(code).get();
+    return doc.exists ? (doc.data() as PromoCode) : null;
+  }
+
+  /**
+   * Update a code's settings or (de)activate it. Returns null if it doesn't exist.
+   */
+  async update(code: string, changes: Partial<PromoCodeSettings & { active: boolean }>): Promise<PromoCode | null> {
+    const ref = this.collection().doc(code);
+    return db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) return null;
+
+      const updated = { ...(doc.data() as PromoCode), ...changes, updatedAt: new Date().toISOString() };
+      transaction.set(ref, updated);
+      return updated;
+    });
+  }
+
+  async listRedemptions(code: string) {
+    const snap = await this.collection().doc(code).collection('redemptions').get();
+    return snap.docs.map((doc) => doc.data());
+  }
+
+  /**
+   * Redeem a code for a user. Returns null if no such promo code exists
+   * (the caller may then try it as a referral code); throws AppError if
+   * the code exists but can't be redeemed.
+   */
+  async redeem(code: string, user: { uid: string; email: string; emailVerified: boolean }): Promise<RedemptionResult | null> {
+    const ref = this.collection().doc(code);
+    const userRef = ref.collection('redemptions').doc(user.uid);
+    const usageRef = db.collection('userUsage').doc(user.uid);
+
+    return db.runTransaction(async (transaction): Promise<RedemptionResult | null> => {
+      const [promoDoc, userDoc, usageDoc] = await Promise.all([
+        transaction.get(ref),
+        transaction.get(userRef),
+        transaction.get(usageRef),
+      ]);
+      if (!promoDoc.exists) return null;
+
+      const promo = promoDoc.data() as PromoCode;
+      const userRedemptions = userDoc.exists ? userDoc.data()!.count || 0 : 0;
+
+      if (!promo.active) {
+        throw new AppError('This code is no longer active', 410, 'CODE_INACTIVE');
+      }
+      if (promo.expiresAt && new Date(promo.expiresAt).getTime() <= Date.now()) {
+        throw new AppError('This code has expired', 410, 'CODE_EXPIRED');
+      }
+      if (promo.emailDomain && emailDomainOf(user.email) !== promo.emailDomain) {
+        throw new AppError(`This code is only for @${promo.emailDomain} accounts`, 403, 'CODE_DOMAIN_RESTRICTED');
+      }
+      // Anyone can sign up with an unverified address at any domain
+      if (promo.emailDomain && !user.emailVerified) {
+        throw new AppError('Verify your email address to redeem this code', 403, 'EMAIL_NOT_VERIFIED');
+      }
+      if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+        throw new AppError('This code has been fully redeemed', 409, 'CODE_EXHAUSTED');
+      }
+      if (userRedemptions >= promo.perUserLimit) {
+        throw new AppError('You have already redeemed this code', 409, 'CODE_ALREADY_REDEEMED');
+      }
+
+      const now = new Date().toISOString();
+      transaction.update(ref, { redemptionCount: promo.redemptionCount + 1 });
+      transaction.set(userRef, {
+        userId: user.uid,
+        email: user.email,
+        count: userRedemptions + 1,
+        credits: (userDoc.exists ? userDoc.data()!.credits || 0 : 0) + promo.credits,
+        lastRedeemedAt: now,
+      });
+
+      const usageData = usageDoc.data();
+      const newCredits = (usageData?.credits ?? 0) + promo.credits;
+      creditLedger.applyChange(
+        transaction,
+        user.uid,
+        usageData,
+        usageDoc.exists ? { credits: newCredits } : newUsageDoc(user.email, newCredits),
+        { delta: promo.credits, reason: 'promo-code', relatedId: code, actor: user.uid, balanceAfter: newCredits }
+      );
+
+      return { code, credits: promo.credits, balance: newCredits };
+    });
+  }
+}
+
+// Singleton instance
+const promoCodes = new PromoCodeStore();
+export default promoCodes;
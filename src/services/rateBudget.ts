@@ -0,0 +1,133 @@
+/**
+ * Gemini Request Budgets
+ *
+ * Token buckets that keep us inside Gemini's per-model quotas:
+ *   - requests per minute: a bucket of `rpm` tokens refilled continuously
+ *   - requests per day: a counter that resets at midnight UTC (when
+ *     Gemini's daily quota resets)
+ *
+ * Image and text models have separate quotas, so each gets its own budget.
+ * Image calls are gated by GeminiQueue, which only dispatches a task once a
+ * token is available; text calls (translation, prompt improvement, person
+ * detection) wait on `acquire()` directly.
+ */
+
+import config from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+
+export interface RateBudgetStatus {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  availableNow: number;
+  usedToday: number;
+  remainingToday: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const utcDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+export class RateBudget {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private day = utcDay(Date.now());
+  private usedToday = 0;
+
+  constructor(
+    readonly name: string,
+    private requestsPerMinute: number,
+    private requestsPerDay: number
+  ) {
+    this.tokens = requestsPerMinute;
+  }
+
+  /**
+   * Take a token if one is available right now.
+   */
+  tryAcquire(): boolean {
+    this.refill();
+    if (this.tokens < 1 || this.usedToday >= this.requestsPerDay) return false;
+
+    this.tokens -= 1;
+    this.usedToday += 1;
+    return true;
+  }
+
+  /**
+   * Wait for a token, for at most maxWaitMs. Throws 503 RATE_BUDGET_EXHAUSTED
+   * if the daily limit is used up or no token frees up in time.
+   */
+  async acquire(maxWaitMs: number = config.geminiBudgetMaxWaitMs): Promise<void> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (!this.tryAcquire()) {
+      const waitMs = this.msUntilAvailable();
+      if (this.isExhaustedForDay() || Date.now() + waitMs > deadline) {
+        throw this.exhaustedError();
+      }
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Milliseconds until tryAcquire can succeed (0 if it can now).
+   */
+  msUntilAvailable(): number {
+    this.refill();
+    if (this.isExhaustedForDay()) {
+      const nextMidnight = new Date(`${this.day}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000;
+      return nextMidnight - Date.now();
+    }
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) * (60 * 1000 / this.requestsPerMinute));
+  }
+
+  /**
+   * 503 RATE_BUDGET_EXHAUSTED with a Retry-After for when a token frees up.
+   */
+  exhaustedError(): AppError {
+    const error = new AppError(
+      `The Gemini ${this.name} request budget is used up. Please try again later.`,
+      503,
+      'RATE_BUDGET_EXHAUSTED'
+    );
+    error.retryAfterSeconds = Math.max(1, Math.ceil(this.msUntilAvailable() / 1000));
+    return error;
+  }
+
+  isExhaustedForDay(): boolean {
+    this.refill();
+    return this.usedToday >= this.requestsPerDay;
+  }
+
+  getStatus(): RateBudgetStatus {
+    this.refill();
+    return {
+      requestsPerMinute: this.requestsPerMinute,
+      requestsPerDay: this.requestsPerDay,
+      availableNow: this.isExhaustedForDay() ? 0 : Math.floor(this.tokens),
+      usedToday: this.usedToday,
+      remainingToday: Math.max(0, this.requestsPerDay - this.usedToday),
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+
+    const elapsedMs = now - this.lastRefill;
+    this.tokens = Math.min(this.requestsPerMinute, this.tokens + elapsedMs * this.requestsPerMinute / (60 * 1000));
+    this.lastRefill = now;
+
+    const today = utcDay(now);
+    if (today !== this.day) {
+      this.day = today;
+      this.usedToday = 0;
+    }
+  }
+}
+
+// gemini-2.5-flash-image (image generation, edits, try-on, views)
+export const imageBudget = new RateBudget('image', config.geminiImageRpm, config.geminiImageRpd);
+
+// gemini-2.5-flash (translation, prompt improvement, person detection)
+export const textBudget = new RateBudget('text', config.geminiTextRpm, config.geminiTextRpd);
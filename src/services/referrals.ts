@@ -0,0 +1,187 @@
+/**
+ * Referrals
+ *
+ * Every user has a referral code. A new user who redeems someone's code
+ * (POST /api/user/redeem) becomes their referral; once the referred user's
+ * first generation succeeds, both sides get config.referralRewardCredits
+ * (ledger reason 'referral').
+ *
+ * Firestore layout:
+ *   referralCodes/{CODE}        { userId, createdAt }
+ *   userUsage/{uid}             referralCode
+ *   referrals/{referredUid}     { referrerId, referredId, code, status: 'pending' | 'rewarded',
+ *                                 credits, createdAt, rewardedAt }
+ */
+
+import { randomInt } from 'crypto';
+import { db } from '../config/firebaseAdmin';
+import config from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import creditLedger from './creditLedger';
+import { newUsageDoc } from './creditTopUp';
+
+export interface Referral {
+  referrerId: string;
+  referredId: string;
+  code: string;
+  status: 'pending' | 'rewarded';
+  credits: number;
+  createdAt: string;
+  rewardedAt: string | null;
+}
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const generateCode = (): string =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+
+class ReferralService {
+  /**
+   * The user's referral code, created on first use.
+   */
+  async getOrCreateCode(uid: string, email: string): Promise<string> {
+    const usageRef = db.collection('userUsage').doc(uid);
+    const usageDoc = await usageRef.get();
+    const existing = usageDoc.data()?.referralCode;
+    if (existing) return existing;
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = generateCode();
+      const codeRef = db.collection('referralCodes').doc(code);
+      const promoRef = db.collection('promoCodes').doc(code);
+
+      const assigned = await db.runTransaction(async (transaction) => {
+        const [codeDoc, promoDoc, usage] = await Promise.all([
+          transaction.get(codeRef),
+          transaction.get(promoRef),
+          transaction.get(usageRef),
+        ]);
+        // Another request may have created the code in the meantime
+        if (usage.data()?.referralCode) return usage.data()!.referralCode as string;
+        if (codeDoc.exists || promoDoc.exists) return null;
+
+        transaction.set(codeRef, { userId: uid, createdAt: new Date().toISOString() });
+        transaction.set(
+          usageRef,
+          usage.exists ? { referralCode: code } : { ...newUsageDoc(email, 0), referralCode: code },
+          { merge: true }
+        );
+        return code;
+      });
+      if (assigned) return assigned;
+    }
+    throw new AppError('Could not create a referral code, please try again', 500);
+  }
+
+  /**
+   * Referral stats for the user's own code.
+   */
+  async getStats(uid: string): Promise<{ referred: number; rewarded: number }> {
+    const snap = await db.collection('referrals').where('referrerId', '==', uid).get();
+    const rewarded = snap.docs.filter((doc) => doc.data().status === 'rewarded').length;
+    return { referred: snap.size, rewarded };
+  }
+
+  /**
+   * Record that `referredUid` was referred by the owner of `code`.
+   * Returns null if no such referral code exists; throws AppError if the
+   * user can't be referred (own code, already referred, not a new user).
+   */
+  async redeem(code: string, referredUid: string): Promise<Referral | null> {
+    const codeRef = db.collection('referralCodes').doc(code);
+    const referralRef = db.collection('referrals').doc(referredUid);
+    const usageRef = db.collection('userUsage').doc(referredUid);
+
+    const referral = await db.runTransaction(async (transaction): Promise<Referral | null> => {
+      const [codeDoc, referralDoc, usageDoc] = await Promise.all([
+        transaction.get(codeRef),
+        transaction.get(referralRef),
+        transaction.get(usageRef),
+      ]);
+      if (!codeDoc.exists) return null;
+
+      const referrerId = codeDoc.data()!.userId;
+      if (referrerId === referredUid) {
+        throw new AppError('You cannot redeem your own referral code', 400, 'SELF_REFERRAL');
+      }
+      if (referralDoc.exists) {
+        throw new AppError('You have already used a referral code', 409, 'ALREADY_REFERRED');
+      }
+      if ((usageDoc.data()?.totalGenerations || 0) > 0) {
+        throw new AppError('Referral codes are only for new users', 409, 'NOT_A_NEW_USER');
+      }
+
+      const created: Referral = {
+        referrerId,
+        referredId: referredUid,
+        code,
+        status: 'pending',
+        credits: config.referralRewardCredits,
+        createdAt: new Date().toISOString(),
+        rewardedAt: null,
+      };
+      transaction.set(referralRef, created);
+      return created;
+    });
+
+    return referral;
+  }
+
+  /**
+   * Called after each successful generation: rewards both sides if this
+   * user has a pending referral. The referral doc's status (checked in the
+   * reward transaction) is the only record of whether that already happened.
+   * Errors are logged, not thrown.
+   */
+  async onSuccessfulGeneration(uid: string): Promise<void> {
+    try {
+      const rewarded = await this.reward(uid);
+      if (rewarded) {
+        console.log(`🎁 Referral rewarded: ${rewarded.referrerId} referred ${uid} (+${rewarded.credits} credits each)`);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error rewarding referral for ${uid}:`, error.message);
+    }
+  }
+
+  private async reward(referredUid: string): Promise<Referral | null> {
+    const referralRef = db.collection('referrals').doc(referredUid);
+
+    return db.runTransaction(async (transaction): Promise<Referral | null> => {
+      const referralDoc = await transaction.get(referralRef);
+      if (!referralDoc.exists) return null;
+
+      const referral = referralDoc.data() as Referral;
+      if (referral.status !== 'pending') return null;
+
+      const referrerRef = db.collection('userUsage').doc(referral.referrerId);
+      const referredRef = db.collection('userUsage').doc(referredUid);
+      const [referrerDoc, referredDoc] = await Promise.all([
+        transaction.get(referrerRef),
+        transaction.get(referredRef),
+      ]);
+
+      for (const [uid, doc] of [[referral.referrerId, referrerDoc], [referredUid, referredDoc]] as const) {
+        const usageData = doc.data();
+        const newCredits = (usageData?.credits ?? 0) + referral.credits;
+        creditLedger.applyChange(transaction, uid, usageData, { credits: newCredits }, {
+          delta: referral.credits,
+          reason: 'referral',
+          relatedId: referredUid,
+          actor: 'system',
+          balanceAfter: newCredits,
+        });
+      }
+
+      const rewardedAt = new Date().toISOString();
+      transaction.update(referralRef, { status: 'rewarded', rewardedAt });
+      return { ...referral, status: 'rewarded', rewardedAt };
+    });
+  }
+}
+
+// Singleton instance
+const referrals = new ReferralService();
+export default referrals;
@@ -0,0 +1,287 @@
+/**
+ * Resilience helpers for upstream (Gemini) calls
+ *
+ * - classifyError: sort an upstream failure into retryable vs fatal, and
+ *   extract any retry-after hint the API sent
+ * - withRetry: retry retryable failures with jittered exponential backoff
+ * - CircuitBreaker: after repeated upstream failures, reject calls
+ *   immediately for a cool-down period instead of piling onto an outage
+ *
+ * Usage: geminiCall(() => model.generateContent(...), { label: 'Translation' })
+ */
+
+import config from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { ImageGenerationError } from './imageProviders/types';
+
+// ============================================
+// Error classification
+// ============================================
+
+export interface ErrorClassification {
+  retryable: boolean;
+  statusCode?: number;
+  retryAfterMs?: number; // server-provided hint, if any
+}
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * HTTP status of an SDK error. The new SDK sets `status`; the old SDK also
+ * embeds it in the message as "[429 Too Many Requests]".
+ */
+const getStatusCode = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+
+  const match = String(error?.message || '').match(/\[(\d{3}) [^\]]*\]/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * Gemini reports quota back-off as a RetryInfo detail ("retryDelay": "17s"),
+ * either structured (old SDK errorDetails) or inside the JSON message.
+ */
+const getRetryAfterMs = (error: any): number | undefined => {
+  const details: any[] = Array.isArray(error?.errorDetails) ? error.errorDetails : [];
+  const structured = details.find((detail) => typeof detail?.retryDelay === 'string')?.retryDelay;
+
+  const match = structured
+    ? structured.match(/^(\d+(?:\.\d+)?)s$/)
+    : String(error?.message || '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Decide whether an upstream failure is worth retrying.
+ * Rate limits, overload, 5xx and network errors are retryable; bad requests,
+ * auth failures and content blocks are fatal.
+ */
+export const classifyError = (error: any): ErrorClassification => {
+  // Provider results: only a failed upstream call is worth another attempt
+  if (error instanceof ImageGenerationError) {
+    if (error.code !== 'IMAGE_PROVIDER_ERROR' || !error.cause) {
+      return { retryable: false };
+    }
+    return classifyError(error.cause);
+  }
+
+  // Our own errors (validation, circuit open...) are never retried here
+  if (error instanceof AppError) {
+    return { retryable: false, statusCode: error.statusCode };
+  }
+
+  const statusCode = getStatusCode(error);
+  if (statusCode !== undefined) {
+    return {
+      retryable: RETRYABLE_STATUS_CODES.includes(statusCode),
+      statusCode,
+      retryAfterMs: getRetryAfterMs(error),
+    };
+  }
+
+  const networkCode = error?.code || error?.cause?.code;
+  if (RETRYABLE_NETWORK_CODES.includes(networkCode) || /fetch failed|socket hang up|network/i.test(error?.message || '')) {
+    return { retryable: true };
+  }
+
+  return { retryable: false };
+};
+
+// ============================================
+// Retry with backoff
+// ============================================
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number; // cap per wait; longer retry-after hints are not waited out
+  label?: string;
+  /** Awaited before every retry, e.g. to take a rate budget token */
+  beforeRetry?: () => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run fn, retrying retryable failures with "full jitter" exponential
+ * backoff. A retry-after hint from the server is honoured as the minimum
+ * wait; if the hint exceeds maxDelayMs we give up instead of holding the
+ * request (and its queue slot) that long.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    maxAttempts = config.geminiRetryAttempts,
+    baseDelayMs = config.geminiRetryBaseDelayMs,
+    maxDelayMs = config.geminiRetryMaxDelayMs,
+    label = 'Gemini call',
+    beforeRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const { retryable, statusCode, retryAfterMs } = classifyError(error);
+      if (!retryable || attempt >= maxAttempts || (retryAfterMs !== undefined && retryAfterMs > maxDelayMs)) {
+        throw error;
+      }
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.round(Math.max(backoff, retryAfterMs ?? 0));
+      console.warn(
+        `🔄 ${label} failed (${statusCode ?? error?.code ?? 'network'}), retrying in ${delay}ms ` +
+        `(attempt ${attempt + 1}/${maxAttempts})`
+      );
+      await sleep(delay);
+      try {
+        await beforeRetry?.();
+      } catch {
+        throw error; // e.g. no rate budget left: report the upstream failure
+      }
+    }
+  }
+};
+
+// ============================================
+// Circuit breaker
+// ============================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Thrown when a call is rejected because the circuit is open.
+ */
+export class CircuitOpenError extends AppError {
+  constructor(service: string, retryAfterSeconds: number) {
+    super(
+      `${service} is temporarily unavailable. Please try again in ${retryAfterSeconds} seconds.`,
+      503,
+      'UPSTREAM_UNAVAILABLE'
+    );
+    this.name = 'CircuitOpenError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Classic three-state breaker:
+ *   closed    → calls pass; `failureThreshold` consecutive upstream failures open it
+ *   open      → calls are rejected until `cooldownMs` has passed
+ *   half-open → a single trial call is let through; success closes the
+ *               circuit, failure re-opens it for another cool-down
+ *
+ * Only retryable (upstream) failures count — a blocked prompt or a bad
+ * request says nothing about the upstream's health.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private failureThreshold: number,
+    private cooldownMs: number
+  ) {}
+
+  /**
+   * Run fn through the breaker. Throws CircuitOpenError without calling
+   * fn if the circuit is open.
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.refreshState();
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, this.getRetryAfterSeconds());
+    }
+
+    const isTrial = this.state === 'half-open';
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (classifyError(error).retryable) {
+        this.recordFailure();
+      } else if (!(error instanceof AppError) || error instanceof ImageGenerationError) {
+        this.recordSuccess(); // upstream answered; the request itself was the problem
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  /**
+   * True while calls would be rejected outright.
+   */
+  isOpen(): boolean {
+    this.refreshState();
+    return this.state === 'open';
+  }
+
+  /**
+   * Seconds until the circuit lets a trial call through (at least 1).
+   */
+  getRetryAfterSeconds(): number {
+    const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+    return Math.max(1, Math.ceil(remainingMs / 1000));
+  }
+
+  getStatus() {
+    this.refreshState();
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state === 'open' && { retryAfterSeconds: this.getRetryAfterSeconds() }),
+    };
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+      console.log(`🟡 Circuit "${this.name}" half-open, allowing a trial call`);
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🟢 Circuit "${this.name}" closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        console.error(`🔴 Circuit "${this.name}" opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ============================================
+// Gemini
+// ============================================
+
+export const geminiBreaker = new CircuitBreaker(
+  'Gemini',
+  config.geminiBreakerThreshold,
+  config.geminiBreakerCooldownMs
+);
+
+/**
+ * Run one Gemini call with retries, behind the shared Gemini circuit breaker.
+ */
+export const geminiCall = <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> =>
+  geminiBreaker.execute(() => withRetry(fn, options));
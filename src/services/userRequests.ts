@@ -0,0 +1,55 @@
+import { db } from '../config/firebaseAdmin';
+import admin from '../config/firebaseAdmin';
+import { DesignSpec } from '../types';
+
+export type UserRequestType = 'text-to-image' | 'image-to-image' | 'session-turn' | 'try-on' | 'multi-view';
+
+/**
+ * Store user request data in the Firestore `userRequests` collection
+ * for feedback analysis and the admin request log.
+ * Non-blocking — errors are logged and never fail the response.
+ */
+export const storeUserRequestData = async (data: {
+  userId: string;
+  email: string;
+  type: UserRequestType;
+  prompt: string;
+  improvedPrompt: string;
+  language: string;
+  style: string | null;
+  designSpec?: DesignSpec | null;
+  inputImageProvided: boolean;
+  editArea?: string | null; // 'mask' or a named garment region for region edits
+  imageId: string | null;
+  imageIds?: string[]; // all images when several variants were generated
+  variantCount?: number;
+  sessionId?: string;
+  designId?: string; // groups the views of one multi-view design
+  view?: string;
+  generationTimeMs: number;
+  success: boolean;
+  errorCode?: string | null; // set when success is false
+}) => {
+  try {
+    await db.collection('userRequests').add({
+      ...data,
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error: any) {
+    console.error('❌ Error storing user request data:', error.message);
+    // Non-blocking — don't fail the response
+  }
+};
+
+/**
+ * Whether `imageId` is one of the user's own generated images, going by
+ * their request records (single images and all variants).
+ */
+export const userOwnsImage = async (userId: string, imageId: string): Promise<boolean> => {
+  const requests = db.collection('userRequests').where('userId', '==', userId);
+  const [single, variants] = await Promise.all([
+    requests.where('imageId', '==', imageId).limit(1).get(),
+    requests.where('imageIds', 'array-contains', imageId).limit(1).get(),
+  ]);
+  return !single.empty || !variants.empty;
+};
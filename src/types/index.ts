@@ -1,20 +1,97 @@
 // Shared types between frontend and backend
 
+export type StyleId = 'traditional' | 'modern' | 'fusion' | 'bridal' | 'casual';
+
+export type DesignSpecSection = 'upperBody' | 'lowerBody' | 'headwear' | 'footwear';
+
+export interface GarmentSectionSpec {
+  garmentType: string; // e.g. "blouse", "lehenga skirt", "juttis"
+  fabric?: string;
+  print?: string;
+  color?: string;
+  embellishment?: string;
+  fit?: string;
+  negativeConstraints?: string[]; // things that must NOT appear in this section
+}
+
+// Structured alternative to a free-text prompt, compiled server-side
+// into the sectioned prompt format understood by improvePrompt
+export interface DesignSpec {
+  upperBody?: GarmentSectionSpec;
+  lowerBody?: GarmentSectionSpec;
+  headwear?: GarmentSectionSpec;
+  footwear?: GarmentSectionSpec;
+  negativeConstraints?: string[]; // apply to the whole image
+}
+
 export interface GenerateImageRequest {
-  prompt: string;
+  prompt?: string; // required unless designSpec is provided
+  designSpec?: DesignSpec;
   language: string;
-  style?: 'traditional' | 'modern' | 'fusion' | 'bridal' | 'casual';
+  style?: StyleId;
+  async?: boolean; // respond 202 with a jobId instead of waiting for the image
+  variants?: number; // 1-4 images from the same prompt, one credit each
+}
+
+export interface GenerationVariantResult {
+  index: number;
+  status: 'succeeded' | 'failed';
+  imageId?: string;
+  imageUrl?: string;
+  error?: string;
+  errorCode?: string;
 }
 
 export interface GenerateImageResponse {
   success: boolean;
+  imageId?: string; // stable ID of the stored image
   imageUrl?: string;
-  imageData?: string; // base64 encoded image
   prompt: string;
   generationTime: number; // in milliseconds
   language: string;
   error?: string;
   credits?: number;
+  creditsCharged?: number; // credits this request cost (after refunds)
+  variants?: GenerationVariantResult[]; // present when more than one variant was requested
+  creditsRefunded?: number; // credits returned for failed variants
+}
+
+export type GenerationJobStatus =
+  | 'queued'
+  | 'translating'
+  | 'improving'
+  | 'generating'
+  | 'succeeded'
+  | 'failed';
+
+export interface GenerationJobAcceptedResponse {
+  success: true;
+  jobId: string;
+  status: GenerationJobStatus;
+  statusUrl: string;
+  credits?: number;
+  creditsCharged?: number;
+}
+
+export interface GenerationJobStatusResponse {
+  success: true;
+  jobId: string;
+  status: GenerationJobStatus;
+  queuePosition: number | null; // position in the Gemini queue while waiting
+  prompt: string;
+  language: string;
+  translatedPrompt?: string;
+  improvedPrompt?: string;
+  result?: {
+    imageId?: string;
+    imageUrl: string;
+    prompt: string;
+    generationTime: number;
+  };
+  error?: string;
+  errorCode?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface SpeechToTextRequest {
@@ -44,6 +121,8 @@ export interface ErrorResponse {
   error: string;
   message: string;
   statusCode: number;
+  code?: string;
+  retryAfter?: number; // seconds, mirrors the Retry-After header
 }
 
 // Supported languages
@@ -0,0 +1,92 @@
+/**
+ * Helpers for the base64 image payloads exchanged with clients and Gemini.
+ */
+
+export interface DecodedImage {
+  mimeType: string;
+  base64: string;
+}
+
+/**
+ * Split a `data:<mime>;base64,<data>` URL into its MIME type and payload.
+ * Bare base64 strings are accepted and assumed to be PNG.
+ */
+export const parseDataUrl = (imageData: string): DecodedImage => {
+  if (imageData.startsWith('data:')) {
+    const matches = imageData.match(/^data:(.+);base64,(.+)$/);
+    if (matches) {
+      return { mimeType: matches[1], base64: matches[2] };
+    }
+  }
+
+  return { mimeType: 'image/png', base64: imageData };
+};
+
+/**
+ * Build a data URL from a MIME type and base64 payload.
+ */
+export const toDataUrl = (mimeType: string, base64: string): string =>
+  `data:${mimeType};base64,${base64}`;
+
+/**
+ * File extension to use when persisting an image of the given MIME type.
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
+  }
+};
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the pixel dimensions from a PNG, JPEG or WebP header without
+ * decoding the image. Returns null for unsupported or malformed data.
+ */
+export const getImageDimensions = (data: Buffer): ImageDimensions | null => {
+  // PNG: 8-byte signature, then the IHDR chunk with width/height
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.toString('ascii', 12, 16) === 'IHDR') {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const segmentLength = data.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isStartOfFrame) {
+        return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + segmentLength;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with a VP8 / VP8L / VP8X chunk
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return null;
+};
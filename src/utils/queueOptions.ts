@@ -0,0 +1,43 @@
+/**
+ * Gemini queue options derived from the HTTP request a task serves.
+ */
+
+import { Request, Response } from 'express';
+import config from '../config/env';
+import { QueueLane } from '../services/geminiQueue';
+import { getPlan } from '../config/plans';
+
+/**
+ * Lane for a request's generation tasks: admins always go first, work
+ * nobody is waiting on (async jobs) goes to the batch lane, everything else
+ * uses the lane of the user's plan (req.plan, set by the credit limiter).
+ */
+export const laneForRequest = (req: Request, background: boolean = false): QueueLane => {
+  if (req.user?.email && config.adminEmails.includes(req.user.email)) return 'priority';
+  return background ? 'batch' : getPlan((req as any).plan).lane;
+};
+
+/**
+ * An AbortSignal that fires if the client disconnects before the response
+ * was fully sent, so waiting queue tasks can be dropped.
+ */
+export const abortSignalForResponse = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  // res, not req: req's 'close' fires as soon as the request body has been read
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+/**
+ * Lane, owner and cancellation for a request the client is waiting on.
+ */
+export const interactiveQueueOptions = (
+  req: Request,
+  res: Response
+): { lane: QueueLane; ownerId?: string; signal: AbortSignal } => ({
+  lane: laneForRequest(req),
+  ownerId: req.user?.uid,
+  signal: abortSignalForResponse(res),
+});
@@ -0,0 +1,73 @@
+/**
+ * Minimal Server-Sent Events writer for Express responses.
+ */
+
+import { Request, Response } from 'express';
+
+// Comment lines keep proxies (Render, nginx) from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+export interface StreamedEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface EventStream {
+  /**
+   * Send a named event with a JSON payload. No-op once the stream is closed,
+   * but still recorded as res.locals.lastEvent (the outcome the idempotency
+   * middleware stores for replay).
+   */
+  send: (event: string, data: unknown) => void;
+  /** End the response. Safe to call more than once. */
+  close: () => void;
+  isClosed: () => boolean;
+}
+
+/**
+ * Whether the client asked for an event stream via the Accept header.
+ */
+export const wantsEventStream = (req: Request): boolean =>
+  (req.get('Accept') || '').includes('text/event-stream');
+
+/**
+ * Switch the response into SSE mode and return a writer for it.
+ */
+export const openEventStream = (res: Response): EventStream => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    // Also ended after a disconnect, so 'end' hooks (idempotency) still run
+    if (!res.writableEnded) res.end();
+  };
+
+  // Client went away — stop writing. (res, not req: req's 'close' fires
+  // as soon as the request body has been read.)
+  res.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+  });
+
+  return {
+    send: (event, data) => {
+      res.locals.lastEvent = { event, data } as StreamedEvent;
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close,
+    isClosed: () => closed,
+  };
+};
@@ -0,0 +1,113 @@
+import creditHolds from '../src/services/creditHolds';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledger, ledgerTotal, seedUser, usage } from './helpers/users';
+
+const user = { uid: 'u1', email: 'u1@example.com' };
+
+const place = async (amount: number) => {
+  const result = await creditHolds.place(user, amount, 'text-to-image');
+  if (!result.success) throw new Error(`Hold not placed: ${result.reason}`);
+  return result;
+};
+
+describe('creditHolds', () => {
+  beforeEach(() => db.clear());
+
+  it('sets up a first-time user with no credits and no top-up', async () => {
+    const result = await creditHolds.place(user, 1, 'text-to-image');
+
+    expect(result).toEqual({ success: false, reason: 'insufficient-credits', credits: 0, plan: 'free' });
+    expect(usage('u1')).toMatchObject({ credits: 0, heldCredits: 0, totalGenerations: 0 });
+    expect(usage('u1').lastCreditRefresh).toBeDefined();
+  });
+
+  it('refuses an operation the plan does not include', async () => {
+    seedUser('u1', { credits: 10 });
+
+    const result = await creditHolds.place(user, 4, 'multi-view');
+
+    expect(result).toMatchObject({ success: false, reason: 'operation-not-in-plan' });
+    expect(usage('u1').credits).toBe(10);
+  });
+
+  it('refuses a hold larger than the balance', async () => {
+    seedUser('u1', { credits: 2 });
+
+    const result = await creditHolds.place(user, 3, 'text-to-image');
+
+    expect(result).toMatchObject({ success: false, reason: 'insufficient-credits', credits: 2 });
+    expect(usage('u1')).toMatchObject({ credits: 2, heldCredits: 0 });
+  });
+
+  it('moves held credits out of the balance and records the charge', async () => {
+    seedUser('u1', { credits: 10 });
+
+    const result = await place(3);
+
+    expect(result.credits).toBe(7);
+    expect(usage('u1')).toMatchObject({ credits: 7, heldCredits: 3 });
+    expect(db.peek(`creditHolds/${result.holdId}`)).toMatchObject({ userId: 'u1', amount: 3, status: 'held' });
+    expect(ledger('u1').map((entry) => [entry.reason, entry.delta])).toEqual([
+      ['opening-balance', 10],
+      ['generation', -3],
+    ]);
+  });
+
+  it('commits a hold as one generation', async () => {
+    seedUser('u1', { credits: 10 });
+    const { holdId } = await place(3);
+
+    await creditHolds.commit(holdId);
+
+    expect(usage('u1')).toMatchObject({ credits: 7, heldCredits: 0, totalGenerations: 1 });
+    expect(db.peek(`creditHolds/${holdId}`)).toMatchObject({ status: 'committed', consumed: 3 });
+    expect(ledgerTotal('u1')).toBe(7);
+  });
+
+  it('releases a hold back to the balance', async () => {
+    seedUser('u1', { credits: 10 });
+    const { holdId } = await place(3);
+
+    await creditHolds.release(holdId);
+
+    expect(usage('u1')).toMatchObject({ credits: 10, heldCredits: 0, totalGenerations: 0 });
+    expect(db.peek(`creditHolds/${holdId}`)).toMatchObject({ status: 'released', consumed: 0 });
+    expect(ledger('u1').pop()).toMatchObject({ reason: 'refund', delta: 3 });
+    expect(ledgerTotal('u1')).toBe(10);
+  });
+
+  it('settles part of a hold, counting generations rather than credits', async () => {
+    seedUser('u1', { credits: 10 });
+    const { holdId } = await place(8);
+
+    // 3 of 4 variants at 2 credits each
+    await creditHolds.settle(holdId, 6, 3);
+
+    expect(usage('u1')).toMatchObject({ credits: 4, heldCredits: 0, totalGenerations: 3 });
+    expect(ledgerTotal('u1')).toBe(4);
+  });
+
+  it('never settles a hold twice', async () => {
+    seedUser('u1', { credits: 10 });
+    const { holdId } = await place(3);
+
+    await creditHolds.commit(holdId);
+    await creditHolds.release(holdId);
+
+    expect(usage('u1')).toMatchObject({ credits: 7, totalGenerations: 1 });
+  });
+
+  it('releases expired holds', async () => {
+    seedUser('u1', { credits: 10 });
+    const { holdId } = await place(3);
+    db.doc(`creditHolds/${holdId}`).writeUpdate({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+    const { holdId: liveHoldId } = await place(2);
+
+    await expect(creditHolds.releaseExpired()).resolves.toBe(1);
+
+    expect(db.peek(`creditHolds/${holdId}`)).toMatchObject({ status: 'expired' });
+    expect(db.peek(`creditHolds/${liveHoldId}`)).toMatchObject({ status: 'held' });
+    expect(usage('u1')).toMatchObject({ credits: 8, heldCredits: 2 });
+    expect(ledger('u1').pop()).toMatchObject({ reason: 'hold-expired', delta: 3 });
+  });
+});
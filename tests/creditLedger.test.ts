@@ -0,0 +1,65 @@
+import request from 'supertest';
+import adminRoutes from '../src/routes/admin';
+import generateRoutes from '../src/routes/generate';
+import { authHeader, createApp } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledger, ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes, '/api/admin': adminRoutes });
+const admin = authHeader('admin', 'admin@example.com');
+
+const setCredits = (uid: string, credits: number) =>
+  request(app).put(`/api/admin/usage/${uid}/credits`).set(admin).send({ credits });
+
+describe('credit ledger', () => {
+  beforeEach(() => db.clear());
+
+  it('records an admin adjustment for an existing user', async () => {
+    seedUser('u1', { credits: 3 });
+
+    const res = await setCredits('u1', 8);
+
+    expect(res.status).toBe(200);
+    expect(usage('u1').credits).toBe(8);
+    expect(ledger('u1')).toEqual([
+      expect.objectContaining({ delta: 3, reason: 'opening-balance', balanceAfter: 3 }),
+      expect.objectContaining({ delta: 5, reason: 'admin-adjustment', actor: 'admin@example.com', balanceAfter: 8 }),
+    ]);
+  });
+
+  it('creates a complete usage doc for a new user without topping up on top of the grant', async () => {
+    const res = await setCredits('new-user', 4);
+
+    expect(res.status).toBe(200);
+    expect(usage('new-user')).toMatchObject({ credits: 4, heldCredits: 0, totalGenerations: 0 });
+    expect(usage('new-user').lastCreditRefresh).toBeDefined();
+    expect(ledger('new-user')).toEqual([expect.objectContaining({ delta: 4, reason: 'admin-adjustment' })]);
+
+    const credits = await request(app).get('/api/user/credits').set(authHeader('new-user'));
+    expect(credits.body.credits).toBe(4);
+    expect(ledgerTotal('new-user')).toBe(4);
+  });
+
+  it('pages through the user\'s statement, newest first', async () => {
+    seedUser('u1', { credits: 0 });
+    for (const credits of [1, 2, 3]) {
+      await setCredits('u1', credits);
+      await new Promise((resolve) => setTimeout(resolve, 2)); // distinct createdAt
+    }
+
+    const first = await request(app).get('/api/user/credits/history?limit=2').set(authHeader('u1'));
+    const second = await request(app)
+      .get(`/api/user/credits/history?limit=2&cursor=${first.body.nextCursor}`)
+      .set(authHeader('u1'));
+
+    expect(first.body.entries.map((entry: any) => entry.balanceAfter)).toEqual([3, 2]);
+    expect(second.body.entries.map((entry: any) => entry.balanceAfter)).toEqual([1]);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  it('rejects a negative balance', async () => {
+    const res = await setCredits('u1', -1);
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import adminRoutes from '../src/routes/admin';
+import generateRoutes from '../src/routes/generate';
+import creditRequests from '../src/services/creditRequests';
+import { authHeader, createApp } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledger, ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes, '/api/admin': adminRoutes });
+const admin = authHeader('admin', 'admin@example.com');
+
+const submit = (requestedCredits: number, uid = 'u1') =>
+  request(app).post('/api/user/request-credits').set(authHeader(uid)).send({ requestedCredits, message: 'More please' });
+
+const decide = (id: string, body: object) => request(app).put(`/api/admin/credit-requests/${id}`).set(admin).send(body);
+
+const notificationsOf = (uid: string) => db.peekCollection(`userUsage/${uid}/notifications`);
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+// Meets the default auto-approval rules (7 days old, 10 generations)
+const seedEstablishedUser = (uid: string, fields: Record<string, unknown> = {}) =>
+  seedUser(uid, { createdAt: daysAgo(30), totalGenerations: 12, ...fields });
+
+describe('credit requests', () => {
+  beforeEach(() => db.clear());
+
+  it('allows one pending request per user', async () => {
+    seedUser('u1');
+
+    const first = await submit(5);
+    const second = await submit(5);
+
+    expect(first.body.request).toMatchObject({ status: 'pending', autoApproved: false });
+    expect(second.status).toBe(409);
+    expect(second.body.code).toBe('CREDIT_REQUEST_PENDING');
+    expect(usage('u1').pendingCreditRequestId).toBe(first.body.request.id);
+  });
+
+  it('counts pending requests from before the pending marker', async () => {
+    seedUser('u1');
+    db.doc('creditRequests/legacy').write({ userId: 'u1', status: 'pending', requestedCredits: 5 });
+
+    const res = await submit(5);
+
+    expect(res.status).toBe(409);
+  });
+
+  it('creates a complete usage doc for a user who has none', async () => {
+    const res = await submit(5, 'new-user');
+
+    expect(res.status).toBe(200);
+    expect(usage('new-user')).toMatchObject({ credits: 0, heldCredits: 0, totalGenerations: 0 });
+    expect(usage('new-user').lastCreditRefresh).toBeDefined();
+  });
+
+  it('grants the approved credits once and notifies the user', async () => {
+    seedUser('u1', { credits: 2 });
+    const { id } = (await submit(5)).body.request;
+
+    const approved = await decide(id, { status: 'approved', credits: 4 });
+    const again = await decide(id, { status: 'denied' });
+
+    expect(approved.body.credits).toBe(4);
+    expect(again.status).toBe(409);
+    expect(usage('u1')).toMatchObject({ credits: 6, pendingCreditRequestId: null });
+    expect(ledgerTotal('u1')).toBe(6);
+    expect(ledger('u1').pop()).toMatchObject({ delta: 4, reason: 'credit-request', relatedId: id, actor: 'admin@example.com' });
+    expect(db.peek(`creditRequests/${id}`)).toMatchObject({ status: 'approved', approvedCredits: 4 });
+    expect(notificationsOf('u1')).toEqual([
+      expect.objectContaining({ type: 'credit-request-decided', read: false, data: { requestId: id, status: 'approved', credits: 4 } }),
+    ]);
+  });
+
+  it('requires at least 1 credit to approve', async () => {
+    seedUser('u1');
+    const { id } = (await submit(5)).body.request;
+
+    expect((await decide(id, { status: 'approved' })).status).toBe(400);
+    expect((await decide(id, { status: 'approved', credits: 0 })).status).toBe(400);
+    expect((await decide(id, { status: 'approved', credits: 1.5 })).status).toBe(400);
+    await expect(creditRequests.decide(id, 'approved', 0, 'admin')).rejects.toMatchObject({ statusCode: 400 });
+    expect(db.peek(`creditRequests/${id}`)!.status).toBe('pending');
+  });
+
+  it('lets a denied user ask again', async () => {
+    seedUser('u1', { credits: 2 });
+    const { id } = (await submit(5)).body.request;
+
+    await decide(id, { status: 'denied' });
+
+    expect(usage('u1')).toMatchObject({ credits: 2, pendingCreditRequestId: null });
+    expect(notificationsOf('u1')[0].data).toEqual({ requestId: id, status: 'denied', credits: 0 });
+    expect((await submit(5)).status).toBe(200);
+  });
+
+  it('auto-approves established users within the monthly allowance', async () => {
+    seedEstablishedUser('u1', { credits: 1 });
+
+    const first = await submit(15);
+    const overAllowance = await submit(10);
+
+    expect(first.body.request).toMatchObject({ status: 'approved', autoApproved: true, approvedCredits: 15 });
+    expect(overAllowance.body.request).toMatchObject({ status: 'pending', autoApproved: false });
+    expect(usage('u1')).toMatchObject({ credits: 16, autoApprovedCredits: { credits: 15 } });
+    expect(ledgerTotal('u1')).toBe(16);
+    expect(notificationsOf('u1')).toHaveLength(1);
+  });
+
+  it('does not auto-approve new accounts', async () => {
+    seedUser('u1', { createdAt: daysAgo(1), totalGenerations: 50 });
+
+    const res = await submit(5);
+
+    expect(res.body.request.status).toBe('pending');
+  });
+});
+
+describe('notifications', () => {
+  beforeEach(() => db.clear());
+
+  const seedNotification = (uid: string, id: string, minutesAgo: number, read = false) =>
+    db.doc(`userUsage/${uid}/notifications/${id}`).write({
+      type: 'credit-request-decided',
+      title: id,
+      message: '',
+      data: {},
+      read,
+      createdAt: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+    });
+
+  const list = (query: string) => request(app).get(`/api/user/notifications${query}`).set(authHeader('u1'));
+
+  it('lists the newest notifications first, up to the limit', async () => {
+    seedNotification('u1', 'old', 30, true);
+    seedNotification('u1', 'new', 1);
+    seedNotification('u1', 'middle', 10);
+
+    const res = await list('?limit=2');
+
+    expect(res.body.notifications.map((n: any) => n.id)).toEqual(['new', 'middle']);
+    expect(res.body.unread).toBe(2);
+  });
+
+  it('lists only unread ones on request, and marks them read', async () => {
+    seedNotification('u1', 'read', 5, true);
+    seedNotification('u1', 'unread', 1);
+
+    const unread = await list('?unread=true');
+    const marked = await request(app).post('/api/user/notifications/read').set(authHeader('u1')).send({});
+    const after = await list('');
+
+    expect(unread.body.notifications.map((n: any) => n.id)).toEqual(['unread']);
+    expect(marked.body.updated).toBe(1);
+    expect(after.body.unread).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+import config from '../src/config/env';
+import creditTopUp, { newUsageDoc, nextRefreshAt, resetWindow } from '../src/services/creditTopUp';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('resetWindow', () => {
+  const originalZone = config.creditResetTimezone;
+  const originalHour = config.creditResetHour;
+
+  afterEach(() => {
+    config.creditResetTimezone = originalZone;
+    config.creditResetHour = originalHour;
+  });
+
+  it('resets at midnight IST', () => {
+    // 2026-03-10 10:00 IST
+    const window = resetWindow(at('2026-03-10T04:30:00Z'));
+    expect(new Date(window.lastResetAt).toISOString()).toBe('2026-03-09T18:30:00.000Z');
+    expect(new Date(window.nextRefreshAt).toISOString()).toBe('2026-03-10T18:30:00.000Z');
+  });
+
+  it('treats the reset instant itself as the start of the new day', () => {
+    const window = resetWindow(at('2026-03-09T18:30:00Z'));
+    expect(new Date(window.lastResetAt).toISOString()).toBe('2026-03-09T18:30:00.000Z');
+  });
+
+  it('follows daylight saving time changes', () => {
+    config.creditResetTimezone = 'America/New_York';
+    config.creditResetHour = 6;
+
+    // Spring forward on 2026-03-08: EST (UTC-5) before, EDT (UTC-4) after
+    const window = resetWindow(at('2026-03-08T05:00:00Z'));
+    expect(new Date(window.lastResetAt).toISOString()).toBe('2026-03-07T11:00:00.000Z');
+    expect(new Date(window.nextRefreshAt).toISOString()).toBe('2026-03-08T10:00:00.000Z');
+
+    // Fall back on 2026-11-01
+    const autumn = resetWindow(at('2026-11-01T12:00:00Z'));
+    expect(new Date(autumn.lastResetAt).toISOString()).toBe('2026-11-01T11:00:00.000Z');
+    expect(new Date(autumn.nextRefreshAt).toISOString()).toBe('2026-11-02T11:00:00.000Z');
+  });
+
+  it('formats the next refresh as ISO', () => {
+    expect(nextRefreshAt(at('2026-03-10T04:30:00Z'))).toBe('2026-03-10T18:30:00.000Z');
+  });
+});
+
+describe('creditTopUp', () => {
+  beforeEach(() => db.clear());
+
+  const yesterday = () => new Date(Date.now() - 26 * 60 * 60 * 1000).toISOString();
+
+  it('is not due for a freshly created usage doc', () => {
+    expect(creditTopUp.isDue(newUsageDoc('new@example.com', 5))).toBe(false);
+  });
+
+  it('is due once the last refresh is before the latest reset', () => {
+    expect(creditTopUp.isDue({ lastCreditRefresh: yesterday(), email: 'u@example.com' })).toBe(true);
+  });
+
+  it('never tops up admins', () => {
+    const adminEmail = config.adminEmails[0] || 'admin@example.com';
+    const originalAdmins = config.adminEmails;
+    config.adminEmails = [adminEmail];
+    try {
+      expect(creditTopUp.isDue({ lastCreditRefresh: yesterday() }, adminEmail)).toBe(false);
+    } finally {
+      config.adminEmails = originalAdmins;
+    }
+  });
+
+  it('adds the plan increment, capped at the plan maximum, with a ledger entry', async () => {
+    seedUser('u1', { credits: config.maxCreditsPerUser - 3, lastCreditRefresh: yesterday() });
+
+    const topUp = await db.runTransaction(async (transaction) =>
+      creditTopUp.apply(transaction, 'u1', usage('u1')).creditTopUp
+    );
+
+    expect(topUp).toEqual({ awarded: 3, capped: true, newBalance: config.maxCreditsPerUser });
+    expect(usage('u1').credits).toBe(config.maxCreditsPerUser);
+    expect(ledgerTotal('u1')).toBe(config.maxCreditsPerUser);
+  });
+
+  it('does nothing when not due', async () => {
+    seedUser('u1', { credits: 1 });
+
+    const topUp = await db.runTransaction(async (transaction) =>
+      creditTopUp.apply(transaction, 'u1', usage('u1')).creditTopUp
+    );
+
+    expect(topUp).toBeNull();
+    expect(usage('u1').credits).toBe(1);
+  });
+
+  it('tops up every due user in the batch', async () => {
+    seedUser('due', { credits: 0, lastCreditRefresh: yesterday() });
+    seedUser('fresh', { credits: 0 });
+
+    await expect(creditTopUp.applyToAll()).resolves.toBe(1);
+    expect(usage('due').credits).toBe(config.dailyCreditIncrement);
+    expect(usage('fresh').credits).toBe(0);
+  });
+});
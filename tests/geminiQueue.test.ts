@@ -0,0 +1,172 @@
+import config from '../src/config/env';
+import geminiQueue, { EnqueueOptions } from '../src/services/geminiQueue';
+
+interface Gate {
+  promise: Promise<void>;
+  open: () => void;
+}
+
+const gate = (): Gate => {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => (open = resolve));
+  return { promise, open };
+};
+
+// Let finished tasks hand their slots to waiting ones
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Occupy every slot with a task that runs until its gate opens.
+ */
+const fillSlots = (count = config.geminiMaxConcurrent): Gate[] => {
+  const gates = Array.from({ length: count }, gate);
+  gates.forEach((g) => void geminiQueue.enqueue(() => g.promise));
+  return gates;
+};
+
+/**
+ * Enqueue a task that records when it starts, under `name`.
+ */
+const track = (started: string[], name: string, options: EnqueueOptions = {}) =>
+  geminiQueue.enqueue(async () => {
+    started.push(name);
+    return name;
+  }, options);
+
+afterEach(async () => {
+  await settle();
+  expect(geminiQueue.getStatus()).toMatchObject({ activeCount: 0, queuedCount: 0 });
+});
+
+describe('GeminiQueue lanes', () => {
+  it('runs a task right away when a slot is free', async () => {
+    await expect(geminiQueue.enqueue(async () => 'done')).resolves.toBe('done');
+  });
+
+  it('gives a free slot to the highest waiting lane', async () => {
+    const gates = fillSlots();
+    const started: string[] = [];
+    const tasks = [
+      track(started, 'batch', { lane: 'batch' }),
+      track(started, 'interactive', { lane: 'interactive' }),
+      track(started, 'priority', { lane: 'priority' }),
+    ];
+    expect(geminiQueue.getStatus().lanes).toMatchObject({
+      priority: { queuedCount: 1 },
+      interactive: { queuedCount: 1 },
+      batch: { queuedCount: 1 },
+    });
+
+    gates[0].open();
+    await Promise.all(tasks);
+
+    expect(started).toEqual(['priority', 'interactive', 'batch']);
+    gates.slice(1).forEach((g) => g.open());
+  });
+
+  it('reports the position of a waiting task as it moves up', async () => {
+    const gates = fillSlots();
+    const positions: number[] = [];
+    const first = geminiQueue.enqueue(async () => 'first');
+    const second = geminiQueue.enqueue(async () => 'second', { taskId: 'second', onPositionChange: (p) => positions.push(p) });
+
+    expect(geminiQueue.getPosition('second')).toBe(2);
+    gates[0].open();
+    await first;
+
+    expect(positions).toEqual([2, 1]);
+    gates.slice(1).forEach((g) => g.open());
+    await second;
+    expect(geminiQueue.getPosition('second')).toBeNull();
+  });
+
+  it('rejects a task whose wait deadline passes', async () => {
+    const gates = fillSlots();
+
+    await expect(geminiQueue.enqueue(async () => 'late', { timeoutMs: 10 })).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'QUEUE_TIMEOUT',
+    });
+
+    gates.forEach((g) => g.open());
+  });
+
+  it('removes a waiting task when its signal aborts', async () => {
+    const gates = fillSlots();
+    const controller = new AbortController();
+    const started: string[] = [];
+
+    const task = track(started, 'cancelled', { signal: controller.signal });
+    controller.abort();
+
+    await expect(task).rejects.toMatchObject({ statusCode: 499, code: 'REQUEST_CANCELLED' });
+    gates.forEach((g) => g.open());
+    await settle();
+    expect(started).toEqual([]);
+  });
+
+  it('refuses a task whose signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(geminiQueue.enqueue(async () => 'never', { signal: controller.signal })).rejects.toMatchObject({
+      code: 'REQUEST_CANCELLED',
+    });
+  });
+});
+
+describe('GeminiQueue fairness', () => {
+  it('lets owners take turns within a lane', async () => {
+    const gates = fillSlots();
+    const started: string[] = [];
+    const tasks = [
+      track(started, 'a1', { ownerId: 'a' }),
+      track(started, 'a2', { ownerId: 'a' }),
+      track(started, 'a3', { ownerId: 'a' }),
+      track(started, 'b1', { ownerId: 'b' }),
+    ];
+    expect(geminiQueue.getOwnerStatus('a')).toMatchObject({ queuedCount: 3, positions: [1, 3, 4] });
+
+    gates[0].open();
+    await Promise.all(tasks);
+
+    expect(started).toEqual(['a1', 'b1', 'a2', 'a3']);
+    gates.slice(1).forEach((g) => g.open());
+  });
+
+  it('caps the tasks each owner can have running or waiting', async () => {
+    const gates = Array.from({ length: config.geminiMaxTasksPerUser }, gate);
+    const tasks = gates.map((g) => geminiQueue.enqueue(() => g.promise, { ownerId: 'a' }));
+
+    expect(geminiQueue.isOwnerAtLimit('a')).toBe(true);
+    await expect(geminiQueue.enqueue(async () => 'extra', { ownerId: 'a' })).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'USER_QUEUE_LIMIT',
+    });
+    const other = geminiQueue.enqueue(async () => 'other', { ownerId: 'b' });
+
+    gates.forEach((g) => g.open());
+    await Promise.all(tasks);
+    await expect(other).resolves.toBe('other');
+    expect(geminiQueue.isOwnerAtLimit('a')).toBe(false);
+  });
+
+  it('remembers an owner\'s last turn after their tasks finish', async () => {
+    // b was served before a; a's only task then finishes
+    const b = gate();
+    const bRunning = geminiQueue.enqueue(() => b.promise, { ownerId: 'b' });
+    await geminiQueue.enqueue(async () => 'a0', { ownerId: 'a' });
+    const gates = fillSlots(config.geminiMaxConcurrent - 1);
+
+    // a resubmitting right away must not jump ahead of b
+    const started: string[] = [];
+    const tasks = [track(started, 'b1', { ownerId: 'b' }), track(started, 'a1', { ownerId: 'a' })];
+    gates[0].open();
+    await Promise.all(tasks);
+
+    expect(started).toEqual(['b1', 'a1']);
+    b.open();
+    gates.slice(1).forEach((g) => g.open());
+    await bRunning;
+  });
+});
@@ -0,0 +1,61 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import { authHeader, createApp, stubPromptCalls } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes });
+const auth = authHeader('u1');
+
+describe('POST /api/generate with the stub provider', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('charges one credit for a successful generation', async () => {
+    seedUser('u1', { credits: 5 });
+
+    const res = await request(app).post('/api/generate').set(auth).send({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: true, credits: 4, creditsCharged: 1 });
+    expect(res.body.imageUrl).toBeDefined();
+    expect(usage('u1')).toMatchObject({ credits: 4, heldCredits: 0, totalGenerations: 1 });
+    expect(ledgerTotal('u1')).toBe(4);
+  });
+
+  it('refunds the credit when the provider fails', async () => {
+    seedUser('u1', { credits: 5 });
+
+    const res = await request(app).post('/api/generate').set(auth).send({ prompt: 'a shirt [stub:fail]', language: 'en' });
+
+    expect(res.status).toBe(502);
+    expect(usage('u1')).toMatchObject({ credits: 5, heldCredits: 0, totalGenerations: 0 });
+    expect(ledgerTotal('u1')).toBe(5);
+  });
+
+  it('answers 429 with the next refresh time when credits run out', async () => {
+    seedUser('u1', { credits: 0 });
+
+    const res = await request(app).post('/api/generate').set(auth).send({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(429);
+    expect(res.body).toMatchObject({ success: false, credits: 0 });
+    expect(new Date(res.body.nextRefreshAt).getTime()).toBeGreaterThan(Date.now());
+    expect(db.peekCollection('creditHolds')).toHaveLength(0);
+  });
+
+  it('rejects a missing or invalid token', async () => {
+    const missing = await request(app).post('/api/generate').send({ prompt: 'a red t-shirt', language: 'en' });
+    const invalid = await request(app)
+      .post('/api/generate')
+      .set('Authorization', 'Bearer bad-token')
+      .send({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(missing.status).toBe(401);
+    expect(invalid.status).toBe(401);
+  });
+});
@@ -0,0 +1,41 @@
+import express, { Router } from 'express';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import geminiService from '../../src/services/gemini';
+
+/**
+ * An app with the given routers mounted the way server.ts mounts them.
+ * (server.ts itself starts listening on import.)
+ */
+export const createApp = (routes: Record<string, Router>) => {
+  const app = express();
+  app.use(express.json({ limit: '50mb' }));
+  for (const [path, router] of Object.entries(routes)) {
+    app.use(path, router);
+  }
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Skip the Gemini text calls, which the stub image provider doesn't cover.
+ */
+export const stubPromptCalls = (): void => {
+  jest.spyOn(geminiService, 'improvePrompt').mockImplementation(async (prompt) => prompt);
+  jest.spyOn(geminiService, 'translateToEnglish').mockImplementation(async (text) => text);
+};
+
+export const authHeader = (uid: string, email = `${uid}@example.com`) => ({ Authorization: `Bearer ${uid}:${email}` });
+
+/**
+ * Poll until `check` returns something truthy — for work that finishes
+ * after the response (async jobs, idempotency records).
+ */
+export const waitFor = async <T>(check: () => T | undefined, timeoutMs = 5000): Promise<T> => {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
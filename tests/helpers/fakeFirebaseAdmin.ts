@@ -0,0 +1,423 @@
+/**
+ * In-memory stand-in for src/config/firebaseAdmin (mapped in jest.config.js).
+ *
+ * Covers the part of the Firestore Admin API the services use: documents and
+ * subcollections, equality / `in` / `array-contains` / range queries with
+ * orderBy, limit and startAfter, count and sum aggregates, batches, getAll
+ * and transactions. Transactions run one at a time, buffer their writes and,
+ * like Firestore, reject reads after the first write.
+ */
+
+import { randomBytes } from 'crypto';
+
+type Data = Record<string, any>;
+
+export class FakeTimestamp {
+  constructor(private readonly ms: number) {}
+  toDate(): Date {
+    return new Date(this.ms);
+  }
+  toMillis(): number {
+    return this.ms;
+  }
+}
+
+class ServerTimestamp {}
+
+const autoId = (): string => randomBytes(10).toString('hex');
+
+// Resolve sentinels and copy, so stored data can't be mutated through references
+const prepare = (value: any): any => {
+  if (value instanceof ServerTimestamp) return new FakeTimestamp(Date.now());
+  if (value instanceof FakeTimestamp || value instanceof Date || Buffer.isBuffer(value)) return value;
+  if (Array.isArray(value)) return value.map(prepare);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, prepare(v)])
+    );
+  }
+  return value;
+};
+
+const isPlainObject = (value: any): boolean =>
+  !!value && typeof value === 'object' && value.constructor === Object;
+
+const deepMerge = (target: Data, source: Data): Data => {
+  const result: Data = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : value;
+  }
+  return result;
+};
+
+const getField = (data: Data, field: string): any =>
+  field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data as any);
+
+const comparable = (value: any): any => (value instanceof FakeTimestamp ? value.toMillis() : value);
+
+const compare = (a: any, b: any): number => {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x === y) return 0;
+  if (x === undefined) return -1;
+  if (y === undefined) return 1;
+  return x < y ? -1 : 1;
+};
+
+class Store {
+  docs = new Map<string, Data>();
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // Serialize transactions so read-modify-write sequences don't interleave
+  exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: Data | undefined) {}
+  get id(): string {
+    return this.ref.id;
+  }
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : prepare(this.stored);
+  }
+  get(field: string): any {
+    return this.stored === undefined ? undefined : getField(this.stored, field);
+  }
+}
+
+class QuerySnapshot {
+  constructor(readonly docs: DocumentSnapshot[]) {}
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+  get size(): number {
+    return this.docs.length;
+  }
+  forEach(callback: (doc: DocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+class DocumentReference {
+  constructor(private readonly store: Store, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): CollectionReference {
+    return new CollectionReference(this.store, `${this.path}/${name}`);
+  }
+
+  snapshot(): DocumentSnapshot {
+    return new DocumentSnapshot(this, this.store.docs.get(this.path));
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return this.snapshot();
+  }
+
+  write(data: Data, options?: { merge?: boolean }): void {
+    const existing = this.store.docs.get(this.path);
+    const prepared = prepare(data);
+    this.store.docs.set(this.path, options?.merge && existing ? deepMerge(existing, prepared) : prepared);
+  }
+
+  writeUpdate(data: Data): void {
+    const existing = this.store.docs.get(this.path);
+    if (!existing) {
+      const error: any = new Error(`5 NOT_FOUND: No document to update: ${this.path}`);
+      error.code = 5;
+      throw error;
+    }
+    const updated = { ...existing };
+    for (const [field, value] of Object.entries(prepare(data))) {
+      const keys = field.split('.');
+      let target: Data = updated;
+      keys.slice(0, -1).forEach((key) => {
+        target[key] = isPlainObject(target[key]) ? { ...target[key] } : {};
+        target = target[key];
+      });
+      target[keys[keys.length - 1]] = value;
+    }
+    this.store.docs.set(this.path, updated);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+    this.write(data, options);
+  }
+
+  async update(data: Data): Promise<void> {
+    this.writeUpdate(data);
+  }
+
+  async create(data: Data): Promise<void> {
+    if (this.store.docs.has(this.path)) {
+      const error: any = new Error(`6 ALREADY_EXISTS: Document already exists: ${this.path}`);
+      error.code = 6;
+      throw error;
+    }
+    this.write(data);
+  }
+
+  async delete(): Promise<void> {
+    this.store.docs.delete(this.path);
+  }
+}
+
+type Filter = { field: string; op: string; value: any };
+type AggregateSpec = Record<string, { sum: string }>;
+
+class Query {
+  constructor(
+    protected readonly store: Store,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly orders: { field: string; direction: 'asc' | 'desc' }[] = [],
+    private readonly limitCount: number | null = null,
+    private readonly after: DocumentSnapshot | null = null
+  ) {}
+
+  where(field: string, op: string, value: any): Query {
+    return new Query(this.store, this.path, [...this.filters, { field, op, value }], this.orders, this.limitCount, this.after);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): Query {
+    return new Query(this.store, this.path, this.filters, [...this.orders, { field, direction }], this.limitCount, this.after);
+  }
+
+  limit(count: number): Query {
+    return new Query(this.store, this.path, this.filters, this.orders, count, this.after);
+  }
+
+  startAfter(snapshot: DocumentSnapshot): Query {
+    return new Query(this.store, this.path, this.filters, this.orders, this.limitCount, snapshot);
+  }
+
+  count() {
+    return { get: async () => ({ data: () => ({ count: this.run().length }) }) };
+  }
+
+  aggregate(spec: AggregateSpec) {
+    return {
+      get: async () => {
+        const docs = this.run();
+        const totals = Object.fromEntries(
+          Object.entries(spec).map(([name, { sum }]) => [
+            name,
+            docs.reduce((total, doc) => total + (Number(doc.get(sum)) || 0), 0),
+          ])
+        );
+        return { data: () => totals };
+      },
+    };
+  }
+
+  async get(): Promise<QuerySnapshot> {
+    return new QuerySnapshot(this.run());
+  }
+
+  run(): DocumentSnapshot[] {
+    const depth = this.path.split('/').length + 1;
+    let docs = [...this.store.docs.keys()]
+      .filter((path) => path.startsWith(`${this.path}/`) && path.split('/').length === depth)
+      .map((path) => new DocumentReference(this.store, path).snapshot())
+      .filter((doc) => this.filters.every((filter) => this.matches(doc.get(filter.field), filter)));
+
+    for (const { field, direction } of [...this.orders].reverse()) {
+      docs = [...docs].sort((a, b) => compare(a.get(field), b.get(field)) * (direction === 'desc' ? -1 : 1));
+    }
+    if (this.after) {
+      const index = docs.findIndex((doc) => doc.id === this.after!.id);
+      docs = docs.slice(index + 1);
+    }
+    return this.limitCount === null ? docs : docs.slice(0, this.limitCount);
+  }
+
+  private matches(value: any, { op, value: expected }: Filter): boolean {
+    switch (op) {
+      case '==':
+        return compare(value, expected) === 0;
+      case '!=':
+        return value !== undefined && compare(value, expected) !== 0;
+      case 'in':
+        return (expected as any[]).some((candidate) => compare(value, candidate) === 0);
+      case 'array-contains':
+        return Array.isArray(value) && value.some((item) => compare(item, expected) === 0);
+      case '<':
+        return value !== undefined && compare(value, expected) < 0;
+      case '<=':
+        return value !== undefined && compare(value, expected) <= 0;
+      case '>':
+        return value !== undefined && compare(value, expected) > 0;
+      case '>=':
+        return value !== undefined && compare(value, expected) >= 0;
+      default:
+        throw new Error(`Unsupported query operator ${op}`);
+    }
+  }
+}
+
+class CollectionReference extends Query {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id: string = autoId()): DocumentReference {
+    return new DocumentReference(this.store, `${this.path}/${id}`);
+  }
+
+  async add(data: Data): Promise<DocumentReference> {
+    const ref = this.doc();
+    ref.write(data);
+    return ref;
+  }
+}
+
+class Transaction {
+  private writes: (() => void)[] = [];
+
+  constructor(private readonly store: Store) {}
+
+  async get(target: DocumentReference | Query): Promise<any> {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+    return target instanceof DocumentReference ? target.snapshot() : new QuerySnapshot(target.run());
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    return Promise.all(refs.map((ref) => this.get(ref)));
+  }
+
+  set(ref: DocumentReference, data: Data, options?: { merge?: boolean }): this {
+    this.writes.push(() => ref.write(data, options));
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Data): this {
+    this.writes.push(() => ref.writeUpdate(data));
+    return this;
+  }
+
+  create(ref: DocumentReference, data: Data): this {
+    this.writes.push(() => {
+      if (ref.snapshot().exists) throw new Error(`6 ALREADY_EXISTS: ${ref.path}`);
+      ref.write(data);
+    });
+    return this;
+  }
+
+  delete(ref: DocumentReference): this {
+    this.writes.push(() => void ref.delete());
+    return this;
+  }
+
+  commit(): void {
+    // Apply atomically: roll back if any write fails
+    const before = new Map(this.store.docs);
+    try {
+      this.writes.forEach((write) => write());
+    } catch (error) {
+      this.store.docs = before;
+      throw error;
+    }
+  }
+}
+
+export class FakeFirestore {
+  private store = new Store();
+
+  collection(path: string): CollectionReference {
+    return new CollectionReference(this.store, path);
+  }
+
+  doc(path: string): DocumentReference {
+    return new DocumentReference(this.store, path);
+  }
+
+  async runTransaction<T>(fn: (transaction: any) => Promise<T>): Promise<T> {
+    return this.store.exclusive(async () => {
+      const transaction = new Transaction(this.store);
+      const result = await fn(transaction);
+      transaction.commit();
+      return result;
+    });
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    return refs.map((ref) => ref.snapshot());
+  }
+
+  batch() {
+    const writes: (() => void)[] = [];
+    const batch = {
+      set: (ref: DocumentReference, data: Data, options?: { merge?: boolean }) => {
+        writes.push(() => ref.write(data, options));
+        return batch;
+      },
+      update: (ref: DocumentReference, data: Data) => {
+        writes.push(() => ref.writeUpdate(data));
+        return batch;
+      },
+      delete: (ref: DocumentReference) => {
+        writes.push(() => void ref.delete());
+        return batch;
+      },
+      commit: async () => {
+        writes.forEach((write) => write());
+      },
+    };
+    return batch;
+  }
+
+  /** Remove every document (call between tests). */
+  clear(): void {
+    this.store.docs.clear();
+  }
+
+  /** Raw copy of a stored document, for assertions. */
+  peek(path: string): Data | undefined {
+    const data = this.store.docs.get(path);
+    return data === undefined ? undefined : prepare(data);
+  }
+
+  /** Raw copies of the documents directly in a collection. */
+  peekCollection(path: string): (Data & { id: string })[] {
+    return new Query(this.store, path).run().map((doc) => ({ id: doc.id, ...doc.data()! }));
+  }
+}
+
+export const db = new FakeFirestore();
+
+// Tokens are "uid", "uid:email" or "uid:email:unverified"; anything starting
+// with "bad" is rejected
+export const auth = {
+  verifyIdToken: async (token: string) => {
+    if (token.startsWith('bad')) throw new Error('Invalid token');
+    const [uid, email = `${uid}@example.com`, verified] = token.split(':');
+    return { uid, email, email_verified: verified !== 'unverified', name: uid };
+  },
+  getUser: async (uid: string) => ({ uid, email: `${uid}@example.com`, displayName: uid }),
+};
+
+const firestore = Object.assign(() => db, {
+  FieldValue: { serverTimestamp: () => new ServerTimestamp() },
+  AggregateField: { sum: (field: string) => ({ sum: field }) },
+  Timestamp: FakeTimestamp,
+});
+
+const admin = {
+  apps: [{}],
+  firestore,
+  auth: () => auth,
+};
+
+export default admin;
@@ -0,0 +1,17 @@
+/**
+ * A PNG data URL with the given dimensions. Only the signature and IHDR
+ * chunk are written: request validation reads the header, and the stub
+ * image provider never decodes its inputs.
+ */
+export const pngDataUrl = (width = 256, height = width): string => {
+  const header = Buffer.alloc(25);
+  header.writeUInt32BE(13, 0); // IHDR length
+  header.write('IHDR', 4, 'ascii');
+  header.writeUInt32BE(width, 8);
+  header.writeUInt32BE(height, 12);
+  header[16] = 8; // bit depth
+  header[17] = 2; // color type: truecolor RGB
+
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  return `data:image/png;base64,${Buffer.concat([signature, header]).toString('base64')}`;
+};
@@ -0,0 +1,29 @@
+import { db } from './fakeFirebaseAdmin';
+
+/**
+ * Seed a userUsage doc that already had today's top-up.
+ */
+export const seedUser = (uid: string, fields: Record<string, unknown> = {}): void => {
+  const now = new Date().toISOString();
+  db.doc(`userUsage/${uid}`).write({
+    credits: 0,
+    heldCredits: 0,
+    totalGenerations: 0,
+    email: `${uid}@example.com`,
+    displayName: uid,
+    lastCreditRefresh: now,
+    createdAt: now,
+    ...fields,
+  });
+};
+
+export const usage = (uid: string) => db.peek(`userUsage/${uid}`)!;
+
+export const ledger = (uid: string) =>
+  db.peekCollection(`userUsage/${uid}/creditLedger`).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Sum of a user's ledger deltas — must always equal their balance.
+ */
+export const ledgerTotal = (uid: string): number =>
+  ledger(uid).reduce((total, entry) => total + entry.delta, 0);
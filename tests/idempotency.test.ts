@@ -0,0 +1,107 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import { authHeader, createApp, stubPromptCalls, waitFor } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes });
+const auth = authHeader('u1');
+
+// The stored record is written after the response is sent
+const recordCompleted = () => waitFor(() => db.peekCollection('idempotencyKeys')[0]?.status === 'completed');
+
+// Parse an SSE body into its events
+const parseEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter((block) => block.includes('event:'))
+    .map((block) => ({
+      event: /^event: (.*)$/m.exec(block)![1],
+      data: JSON.parse(/^data: (.*)$/m.exec(block)![1]),
+    }));
+
+const generate = (key: string, body: object, accept = 'application/json') =>
+  request(app)
+    .post('/api/generate')
+    .set(auth)
+    .set('Accept', accept)
+    .set('Idempotency-Key', key)
+    .send(body)
+    .buffer(true)
+    .parse((res, callback) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (text += chunk));
+      res.on('end', () => callback(null, text));
+    });
+
+describe('Idempotency-Key on POST /api/generate', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('replays a JSON response without charging again', async () => {
+    seedUser('u1', { credits: 5 });
+    const body = { prompt: 'a red t-shirt', language: 'en' };
+
+    const first = await generate('retry-1', body);
+    await recordCompleted();
+    const retry = await generate('retry-1', body);
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(JSON.parse(retry.body)).toEqual(JSON.parse(first.body));
+    expect(usage('u1').credits).toBe(4);
+    expect(ledgerTotal('u1')).toBe(4);
+  });
+
+  it('replays the final event of a streamed response', async () => {
+    seedUser('u1', { credits: 5 });
+    const body = { prompt: 'a red t-shirt', language: 'en' };
+
+    const first = await generate('stream-1', body, 'text/event-stream');
+    await recordCompleted();
+    const result = parseEvents(first.body).pop()!;
+    expect(result.event).toBe('result');
+
+    const streamed = await generate('stream-1', body, 'text/event-stream');
+    expect(streamed.headers['idempotent-replayed']).toBe('true');
+    expect(parseEvents(streamed.body)).toEqual([result]);
+
+    const json = await generate('stream-1', body);
+    expect(JSON.parse(json.body)).toEqual(result.data);
+
+    expect(usage('u1').credits).toBe(4);
+    expect(ledgerTotal('u1')).toBe(4);
+  });
+
+  it('does not store a failure the client can retry', async () => {
+    seedUser('u1', { credits: 0 });
+    const body = { prompt: 'a red t-shirt', language: 'en' };
+
+    const limited = await generate('limited', body);
+    await waitFor(() => db.peekCollection('idempotencyKeys').length === 0);
+    seedUser('u1', { credits: 5 });
+    const retry = await generate('limited', body);
+
+    expect(limited.status).toBe(429);
+    expect(retry.status).toBe(200);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    seedUser('u1', { credits: 5 });
+
+    const first = await generate('reused', { prompt: 'a red t-shirt', language: 'en' });
+    await recordCompleted();
+    const reused = await generate('reused', { prompt: 'a blue t-shirt', language: 'en' });
+
+    expect(first.status).toBe(200);
+    expect(reused.status).toBe(422);
+    expect(JSON.parse(reused.body).code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(usage('u1').credits).toBe(4);
+  });
+});
@@ -0,0 +1,112 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import geminiService from '../src/services/gemini';
+import imageStorage from '../src/services/imageStorage';
+import { authHeader, createApp, stubPromptCalls } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes });
+
+const multiView = (body: object, uid = 'u1') =>
+  request(app).post('/api/generate/multi-view').set(authHeader(uid)).send(body);
+
+// Multi-view is a paid-plan operation
+const seedProUser = (uid: string) => seedUser(uid, { credits: 10, plan: 'pro' });
+
+// An image generated by (and so owned by) the user
+const generateImage = async (uid: string): Promise<string> => {
+  const res = await request(app).post('/api/generate').set(authHeader(uid)).send({ prompt: 'a red t-shirt', language: 'en' });
+  expect(res.status).toBe(200);
+  return res.body.imageId;
+};
+
+describe('POST /api/generate/multi-view', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('is not part of the free plan', async () => {
+    seedUser('u1', { credits: 10 });
+
+    const res = await multiView({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('PLAN_UPGRADE_REQUIRED');
+  });
+
+  it('renders four views from a prompt, charged per view, under one design', async () => {
+    seedProUser('u1');
+
+    const res = await multiView({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.views.map((view: any) => [view.view, view.status])).toEqual([
+      ['front', 'succeeded'],
+      ['back', 'succeeded'],
+      ['side', 'succeeded'],
+      ['detail', 'succeeded'],
+    ]);
+    expect(res.body).toMatchObject({ creditsCharged: 4, creditsRefunded: 0, credits: 6 });
+    expect(usage('u1')).toMatchObject({ credits: 6, heldCredits: 0, totalGenerations: 4 });
+    expect(ledgerTotal('u1')).toBe(6);
+
+    const design = await request(app).get(`/api/designs/${res.body.designId}`).set(authHeader('u1'));
+    expect(design.status).toBe(200);
+    expect(design.body.views).toHaveLength(4);
+  });
+
+  it('reuses one of the user\'s images as the front for three credits', async () => {
+    seedProUser('u1');
+    const imageId = await generateImage('u1');
+
+    const res = await multiView({ imageId });
+
+    expect(res.status).toBe(200);
+    expect(res.body.views[0]).toMatchObject({ view: 'front', imageId });
+    expect(res.body.creditsCharged).toBe(3);
+    expect(usage('u1').credits).toBe(10 - 1 - 3);
+  });
+
+  it('refuses another user\'s image as the front', async () => {
+    seedProUser('owner');
+    seedProUser('u1');
+    const imageId = await generateImage('owner');
+
+    const res = await multiView({ imageId });
+
+    expect(res.status).toBe(404);
+    expect(usage('u1')).toMatchObject({ credits: 10, heldCredits: 0 });
+  });
+
+  it('refunds the views that fail', async () => {
+    seedProUser('u1');
+    jest.spyOn(geminiService, 'generateView').mockRejectedValueOnce(new Error('Upstream error'));
+
+    const res = await multiView({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.views.filter((view: any) => view.status === 'failed')).toHaveLength(1);
+    expect(res.body).toMatchObject({ creditsCharged: 3, creditsRefunded: 1, credits: 7 });
+    expect(usage('u1')).toMatchObject({ credits: 7, heldCredits: 0, totalGenerations: 3 });
+  });
+
+  it('charges and records only the front when it cannot be read back', async () => {
+    seedProUser('u1');
+    jest.spyOn(imageStorage, 'load').mockRejectedValue(new Error('Storage unavailable'));
+
+    const res = await multiView({ prompt: 'a red t-shirt', language: 'en' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.views.map((view: any) => view.status)).toEqual(['succeeded', 'failed', 'failed', 'failed']);
+    expect(res.body).toMatchObject({ creditsCharged: 1, creditsRefunded: 3 });
+    expect(usage('u1')).toMatchObject({ credits: 9, heldCredits: 0, totalGenerations: 1 });
+    expect(db.peekCollection('creditHolds').map((hold) => hold.status)).toEqual(['committed']);
+    expect(db.peekCollection('userRequests')).toEqual([
+      expect.objectContaining({ type: 'multi-view', view: 'front', imageId: res.body.views[0].imageId }),
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import config from '../src/config/env';
+import { CREDIT_PACKS } from '../src/config/creditPacks';
+import payments from '../src/services/payments';
+import { createPaymentProvider, PaymentWebhookError } from '../src/services/paymentProviders';
+import { FakePaymentProvider, FAKE_SIGNATURE_HEADER } from '../src/services/paymentProviders/fakePaymentProvider';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const provider = payments.provider as FakePaymentProvider;
+const buyer = { uid: 'buyer', email: 'buyer@example.com' };
+
+describe('payment webhooks', () => {
+  beforeEach(() => db.clear());
+
+  it('credits a paid order once, however often the event is delivered', async () => {
+    seedUser('buyer', { credits: 2 });
+    const order = await payments.createOrder(buyer, CREDIT_PACKS.starter);
+    const { rawBody, headers } = provider.createSignedEvent('payment.succeeded', order);
+
+    const first = await payments.handleWebhook(rawBody, headers);
+    const redelivered = await payments.handleWebhook(rawBody, headers);
+
+    expect(first).toEqual({ duplicate: false, outcome: 'credited', orderId: order.id });
+    expect(redelivered).toEqual({ duplicate: true, outcome: 'credited', orderId: order.id });
+    expect(usage('buyer').credits).toBe(2 + CREDIT_PACKS.starter.credits);
+    expect(ledgerTotal('buyer')).toBe(2 + CREDIT_PACKS.starter.credits);
+    expect(db.peek(`creditOrders/${order.id}`)).toMatchObject({ status: 'paid' });
+    expect(db.peekCollection('receipts')).toHaveLength(1);
+  });
+
+  it('does not credit a second succeeded event for a paid order', async () => {
+    const order = await payments.createOrder(buyer, CREDIT_PACKS.starter);
+    const first = provider.createSignedEvent('payment.succeeded', order);
+    await payments.handleWebhook(first.rawBody, first.headers);
+
+    const second = provider.createSignedEvent('payment.succeeded', order);
+    const result = await payments.handleWebhook(second.rawBody, second.headers);
+
+    expect(result.outcome).toBe('already-paid');
+    expect(usage('buyer').credits).toBe(CREDIT_PACKS.starter.credits);
+  });
+
+  it('creates a complete usage doc for a first-time buyer', async () => {
+    const order = await payments.createOrder(buyer, CREDIT_PACKS.starter);
+    const { rawBody, headers } = provider.createSignedEvent('payment.succeeded', order);
+
+    await payments.handleWebhook(rawBody, headers);
+
+    expect(usage('buyer')).toMatchObject({ credits: CREDIT_PACKS.starter.credits, heldCredits: 0, totalGenerations: 0 });
+    expect(usage('buyer').lastCreditRefresh).toBeDefined();
+  });
+
+  it('rejects a forged or tampered event', async () => {
+    const order = await payments.createOrder(buyer, CREDIT_PACKS.creator);
+    const { rawBody, headers } = provider.createSignedEvent('payment.succeeded', order);
+
+    const forger = new FakePaymentProvider('dev-payment-webhook-secret', '');
+    const forged = forger.createSignedEvent('payment.succeeded', order);
+    await expect(payments.handleWebhook(forged.rawBody, forged.headers)).rejects.toThrow(PaymentWebhookError);
+
+    const tampered = Buffer.from(rawBody.toString().replace(`"amount":${order.amount}`, '"amount":1'));
+    await expect(payments.handleWebhook(tampered, headers)).rejects.toThrow('Invalid webhook signature');
+
+    await expect(payments.handleWebhook(rawBody, {})).rejects.toThrow('Missing webhook signature');
+    await expect(payments.handleWebhook(rawBody, { [FAKE_SIGNATURE_HEADER]: 'abc' })).rejects.toThrow(PaymentWebhookError);
+
+    expect(db.peek('userUsage/buyer')).toBeUndefined();
+  });
+
+  it('marks an order failed without crediting', async () => {
+    const order = await payments.createOrder(buyer, CREDIT_PACKS.starter);
+    const { rawBody, headers } = provider.createSignedEvent('payment.failed', order);
+
+    await expect(payments.handleWebhook(rawBody, headers)).resolves.toMatchObject({ outcome: 'failed' });
+    expect(db.peek(`creditOrders/${order.id}`)).toMatchObject({ status: 'failed' });
+    expect(db.peek('userUsage/buyer')).toBeUndefined();
+  });
+
+  it('refuses the fake provider in production', () => {
+    const original = config.nodeEnv;
+    config.nodeEnv = 'production';
+    try {
+      expect(() => createPaymentProvider()).toThrow('cannot be used in production');
+    } finally {
+      config.nodeEnv = original;
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import adminRoutes from '../src/routes/admin';
+import generateRoutes from '../src/routes/generate';
+import pricing from '../src/services/pricing';
+import { authHeader, createApp, stubPromptCalls, waitFor } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes, '/api/admin': adminRoutes });
+const admin = authHeader('admin', 'admin@example.com');
+
+describe('operation pricing', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    db.clear();
+    await pricing.update({}, 'test'); // drop the cached overrides
+  });
+
+  it('lets admins override a price', async () => {
+    const res = await request(app).put('/api/admin/pricing').set(admin).send({ credits: { 'try-on': 2 } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.pricing['try-on'].credits).toBe(2);
+    expect(await pricing.cost('try-on')).toBe(2);
+  });
+
+  it('refuses free operations, except an extra try-on garment', async () => {
+    const free = await request(app).put('/api/admin/pricing').set(admin).send({ credits: { 'text-to-image': 0 } });
+    const freeGarment = await request(app).put('/api/admin/pricing').set(admin).send({ credits: { 'try-on-extra-garment': 0 } });
+
+    expect(free.status).toBe(400);
+    expect(freeGarment.status).toBe(200);
+    expect(await pricing.cost('text-to-image')).toBe(1);
+  });
+
+  it('ignores stored overrides below the minimum', async () => {
+    await pricing.update({ 'text-to-image': 0 }, 'test');
+
+    expect(await pricing.cost('text-to-image')).toBe(1);
+  });
+
+  it('only lets admins change prices', async () => {
+    const res = await request(app).put('/api/admin/pricing').set(authHeader('u1')).send({ credits: { 'try-on': 2 } });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('charges an async job its full quoted price', async () => {
+    await pricing.update({ 'text-to-image': 3 }, 'test');
+    seedUser('u1', { credits: 10 });
+
+    const res = await request(app)
+      .post('/api/generate')
+      .set(authHeader('u1'))
+      .send({ prompt: 'a red t-shirt', language: 'en', async: true });
+
+    expect(res.status).toBe(202);
+    expect(res.body.creditsCharged).toBe(3);
+    await waitFor(() => db.peek(`generationJobs/${res.body.jobId}`)?.status === 'succeeded');
+    await waitFor(() => usage('u1').heldCredits === 0);
+
+    expect(usage('u1')).toMatchObject({ credits: 7, totalGenerations: 1 });
+    expect(ledgerTotal('u1')).toBe(7);
+  });
+});
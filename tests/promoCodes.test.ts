@@ -0,0 +1,130 @@
+import request from 'supertest';
+import adminRoutes from '../src/routes/admin';
+import generateRoutes from '../src/routes/generate';
+import config from '../src/config/env';
+import { authHeader, createApp, stubPromptCalls, waitFor } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { ledger, ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes, '/api/admin': adminRoutes });
+const admin = authHeader('admin', 'admin@example.com');
+
+const createCode = (body: object) => request(app).post('/api/admin/promo-codes').set(admin).send(body);
+
+const redeem = (code: string, headers = authHeader('u1')) =>
+  request(app).post('/api/user/redeem').set(headers).send({ code });
+
+describe('promo codes', () => {
+  beforeEach(() => db.clear());
+
+  it('adds the credits to the ledger and creates a complete usage doc for a new user', async () => {
+    expect((await createCode({ code: 'launch', credits: 5 })).status).toBe(201);
+
+    const res = await redeem('Launch');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ type: 'promo', code: 'LAUNCH', creditsAdded: 5, credits: 5 });
+    expect(usage('u1')).toMatchObject({ credits: 5, heldCredits: 0, totalGenerations: 0 });
+    expect(usage('u1').lastCreditRefresh).toBeDefined();
+    expect(ledger('u1')).toEqual([expect.objectContaining({ delta: 5, reason: 'promo-code', relatedId: 'LAUNCH' })]);
+  });
+
+  it('enforces the per-user and total redemption limits', async () => {
+    await createCode({ code: 'ONCE', credits: 2, maxRedemptions: 2 });
+    seedUser('u1', { credits: 1 });
+
+    expect((await redeem('ONCE')).status).toBe(200);
+    const again = await redeem('ONCE');
+    expect((await redeem('ONCE', authHeader('u2'))).status).toBe(200);
+    const exhausted = await redeem('ONCE', authHeader('u3'));
+
+    expect(again.body.code).toBe('CODE_ALREADY_REDEEMED');
+    expect(exhausted.body.code).toBe('CODE_EXHAUSTED');
+    expect(usage('u1').credits).toBe(3);
+    expect(ledgerTotal('u1')).toBe(3);
+  });
+
+  it('refuses expired and deactivated codes', async () => {
+    await createCode({ code: 'OLD', credits: 2, expiresAt: '2020-01-01T00:00:00Z' });
+    await createCode({ code: 'PAUSED', credits: 2 });
+    await request(app).put('/api/admin/promo-codes/PAUSED').set(admin).send({ active: false });
+
+    expect((await redeem('OLD')).body.code).toBe('CODE_EXPIRED');
+    expect((await redeem('PAUSED')).body.code).toBe('CODE_INACTIVE');
+    expect(db.peek('userUsage/u1')).toBeUndefined();
+  });
+
+  it('only lets verified emails at the partner domain redeem a domain code', async () => {
+    await createCode({ code: 'CAMPUS', credits: 3, emailDomain: '@nift.ac.in' });
+
+    const otherDomain = await redeem('CAMPUS', authHeader('u1', 'u1@example.com'));
+    const unverified = await redeem('CAMPUS', { Authorization: 'Bearer u2:u2@nift.ac.in:unverified' });
+    const verified = await redeem('CAMPUS', authHeader('u3', 'u3@nift.ac.in'));
+
+    expect(otherDomain.body.code).toBe('CODE_DOMAIN_RESTRICTED');
+    expect(unverified.status).toBe(403);
+    expect(unverified.body.code).toBe('EMAIL_NOT_VERIFIED');
+    expect(verified.status).toBe(200);
+    expect(db.peek('userUsage/u2')).toBeUndefined();
+    expect(usage('u3').credits).toBe(3);
+  });
+
+  it('answers 404 for an unknown code', async () => {
+    const res = await redeem('NOPE');
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('INVALID_CODE');
+  });
+});
+
+describe('referral codes', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const referralCode = async (uid: string): Promise<string> => {
+    const res = await request(app).get('/api/user/referral').set(authHeader(uid));
+    expect(res.status).toBe(200);
+    return res.body.code;
+  };
+
+  it('gives a user one code and a complete usage doc', async () => {
+    const code = await referralCode('referrer');
+
+    expect(await referralCode('referrer')).toBe(code);
+    expect(usage('referrer')).toMatchObject({ referralCode: code, credits: 0, heldCredits: 0 });
+    expect(usage('referrer').lastCreditRefresh).toBeDefined();
+  });
+
+  it('rewards both users once the referred user first generates', async () => {
+    const code = await referralCode('referrer');
+    seedUser('referrer', { referralCode: code, credits: 1 });
+    seedUser('u1', { credits: 2 });
+
+    const redeemed = await redeem(code);
+    expect(redeemed.body).toMatchObject({ type: 'referral', creditsAdded: 0, pendingReward: config.referralRewardCredits });
+    expect(usage('u1').credits).toBe(2);
+
+    const generate = () =>
+      request(app).post('/api/generate').set(authHeader('u1')).send({ prompt: 'a red t-shirt', language: 'en' });
+    expect((await generate()).status).toBe(200);
+    await waitFor(() => db.peek('referrals/u1')?.status === 'rewarded');
+    expect((await generate()).status).toBe(200);
+
+    const reward = config.referralRewardCredits;
+    expect(usage('referrer').credits).toBe(1 + reward);
+    expect(usage('u1').credits).toBe(reward); // both seeded credits were spent
+    expect(ledger('u1').filter((entry) => entry.reason === 'referral')).toHaveLength(1);
+  });
+
+  it('refuses self-referrals and users who have already generated', async () => {
+    const code = await referralCode('referrer');
+    seedUser('veteran', { totalGenerations: 3 });
+
+    expect((await redeem(code, authHeader('referrer'))).body.code).toBe('SELF_REFERRAL');
+    expect((await redeem(code, authHeader('veteran'))).body.code).toBe('NOT_A_NEW_USER');
+  });
+});
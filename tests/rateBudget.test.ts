@@ -0,0 +1,51 @@
+import { RateBudget } from '../src/services/rateBudget';
+
+describe('RateBudget', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('hands out a minute\'s tokens, then refills them over the minute', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    const budget = new RateBudget('test', 2, 100);
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    expect(budget.msUntilAvailable()).toBe(30 * 1000);
+
+    jest.advanceTimersByTime(30 * 1000);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.getStatus()).toMatchObject({ availableNow: 0, usedToday: 3, remainingToday: 97 });
+  });
+
+  it('stops at the daily limit until midnight UTC', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T23:00:00Z') });
+    const budget = new RateBudget('test', 10, 2);
+
+    budget.tryAcquire();
+    budget.tryAcquire();
+    expect(budget.isExhaustedForDay()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    expect(budget.msUntilAvailable()).toBe(60 * 60 * 1000);
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(budget.tryAcquire()).toBe(true);
+  });
+
+  it('waits for a token within the allowed time', async () => {
+    const budget = new RateBudget('test', 600, 1000); // a token every 100ms
+    for (let i = 0; i < 600; i++) budget.tryAcquire();
+
+    await expect(budget.acquire(1000)).resolves.toBeUndefined();
+  });
+
+  it('gives up with 503 when no token frees up in time', async () => {
+    const budget = new RateBudget('test', 1, 100);
+    budget.tryAcquire();
+
+    await expect(budget.acquire(10)).rejects.toMatchObject({
+      statusCode: 503,
+      code: 'RATE_BUDGET_EXHAUSTED',
+      retryAfterSeconds: 60,
+    });
+  });
+});
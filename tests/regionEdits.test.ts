@@ -0,0 +1,72 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import geminiService from '../src/services/gemini';
+import { authHeader, createApp } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { pngDataUrl } from './helpers/images';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes });
+
+const editRegion = (body: object) =>
+  request(app)
+    .post('/api/generate/from-image')
+    .set(authHeader('u1'))
+    .send({ imageData: pngDataUrl(), textPrompt: 'make it gold', ...body });
+
+describe('region edits', () => {
+  beforeEach(() => {
+    db.clear();
+    seedUser('u1', { credits: 3 });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('edits a named region for one credit', async () => {
+    const edit = jest.spyOn(geminiService, 'editImageRegion');
+
+    const res = await editRegion({ region: 'dupatta-border' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ credits: 2, creditsCharged: 1 });
+    expect(edit).toHaveBeenCalledWith(
+      expect.any(String),
+      'make it gold',
+      { regionDescription: 'the border of the dupatta only' },
+      null
+    );
+    expect(ledgerTotal('u1')).toBe(2);
+    expect(db.peekCollection('userRequests')).toEqual([expect.objectContaining({ editArea: 'dupatta-border', success: true })]);
+  });
+
+  it('edits the area under a mask of the same size', async () => {
+    const edit = jest.spyOn(geminiService, 'editImageRegion');
+    const maskData = pngDataUrl();
+
+    const res = await editRegion({ maskData });
+
+    expect(res.status).toBe(200);
+    expect(edit).toHaveBeenCalledWith(expect.any(String), 'make it gold', { maskData }, null);
+  });
+
+  it.each([
+    ['a mask of a different size', { maskData: pngDataUrl(128) }],
+    ['both a mask and a region', { maskData: pngDataUrl(), region: 'hem' }],
+    ['an unknown region', { region: 'pocket' }],
+    ['a missing instruction', { region: 'hem', textPrompt: '' }],
+    ['an unreadable mask', { maskData: 'data:image/png;base64,aGVsbG8=' }],
+  ])('refuses %s without charging', async (_case, body) => {
+    const res = await editRegion(body);
+
+    expect(res.status).toBe(400);
+    expect(usage('u1')).toMatchObject({ credits: 3, heldCredits: 0 });
+  });
+
+  it('refunds an edit that fails', async () => {
+    const res = await editRegion({ region: 'hem', textPrompt: 'add tassels [stub:fail]' });
+
+    expect(res.status).toBe(502);
+    expect(usage('u1')).toMatchObject({ credits: 3, heldCredits: 0, totalGenerations: 0 });
+    expect(ledgerTotal('u1')).toBe(3);
+  });
+});
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import sessionRoutes from '../src/routes/sessions';
+import { authHeader, createApp, stubPromptCalls } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { pngDataUrl } from './helpers/images';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes, '/api/sessions': sessionRoutes });
+
+const createSession = (body: object, uid = 'u1') =>
+  request(app).post('/api/sessions').set(authHeader(uid)).send(body);
+
+const addTurn = (sessionId: string, body: object, uid = 'u1') =>
+  request(app).post(`/api/sessions/${sessionId}/turns`).set(authHeader(uid)).send(body);
+
+describe('design sessions', () => {
+  beforeEach(() => {
+    db.clear();
+    stubPromptCalls();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('charges each turn and continues from the session head', async () => {
+    seedUser('u1', { credits: 5 });
+    const { session } = (await createSession({ title: 'Wedding lehenga' })).body;
+
+    const first = await addTurn(session.id, { instruction: 'a red lehenga' });
+    const second = await addTurn(session.id, { instruction: 'add gold zari work' });
+
+    expect(first.status).toBe(200);
+    expect(second.body.turn.parentTurnId).toBe(first.body.turn.id);
+    expect(second.body).toMatchObject({ credits: 3, creditsCharged: 1 });
+    expect(usage('u1')).toMatchObject({ credits: 3, heldCredits: 0 });
+    expect(ledgerTotal('u1')).toBe(3);
+
+    const fetched = await request(app).get(`/api/sessions/${session.id}`).set(authHeader('u1'));
+    expect(fetched.body.session.headTurnId).toBe(second.body.turn.id);
+    expect(fetched.body.turns).toHaveLength(2);
+  });
+
+  it('branches from an earlier turn', async () => {
+    seedUser('u1', { credits: 5 });
+    const { session } = (await createSession({})).body;
+    const root = (await addTurn(session.id, { instruction: 'a blue kurta' })).body.turn;
+    await addTurn(session.id, { instruction: 'make it sleeveless' });
+
+    const branch = await addTurn(session.id, { instruction: 'add a mandarin collar', parentTurnId: root.id });
+    const missing = await addTurn(session.id, { instruction: 'add pockets', parentTurnId: 'nope' });
+
+    expect(branch.body.turn.parentTurnId).toBe(root.id);
+    expect(missing.status).toBe(404);
+    expect(usage('u1')).toMatchObject({ credits: 2, heldCredits: 0 });
+  });
+
+  it('starts from an uploaded image or one of the user\'s own images', async () => {
+    seedUser('u1', { credits: 5 });
+    seedUser('other', { credits: 5 });
+    const generated = await request(app)
+      .post('/api/generate')
+      .set(authHeader('other'))
+      .send({ prompt: 'a red t-shirt', language: 'en' });
+
+    const uploaded = await createSession({ imageData: pngDataUrl() });
+    const notAnImage = await createSession({ imageData: 'data:text/plain;base64,aGVsbG8=' });
+    const notOwned = await createSession({ imageId: generated.body.imageId });
+
+    expect(uploaded.status).toBe(201);
+    expect(uploaded.body.session.baseImageId).toBeTruthy();
+    expect(notAnImage.status).toBe(400);
+    expect(notOwned.status).toBe(404);
+  });
+
+  it('refunds turns that are refused or fail', async () => {
+    seedUser('u1', { credits: 2 });
+    const { session } = (await createSession({})).body;
+
+    expect((await addTurn(session.id, { instruction: '  ' })).status).toBe(400);
+    expect((await addTurn(session.id, { instruction: 'a red saree [stub:fail]' })).status).toBe(502);
+
+    expect(usage('u1')).toMatchObject({ credits: 2, heldCredits: 0, totalGenerations: 0 });
+    expect(ledgerTotal('u1')).toBe(2);
+  });
+
+  it('hides other users\' sessions', async () => {
+    seedUser('u1', { credits: 1 });
+    seedUser('other', { credits: 1 });
+    const { session } = (await createSession({})).body;
+
+    const fetched = await request(app).get(`/api/sessions/${session.id}`).set(authHeader('other'));
+    const turn = await addTurn(session.id, { instruction: 'a red saree' }, 'other');
+    const listed = await request(app).get('/api/sessions').set(authHeader('other'));
+
+    expect(fetched.status).toBe(404);
+    expect(turn.status).toBe(404);
+    expect(usage('other')).toMatchObject({ credits: 1, heldCredits: 0 });
+    expect(listed.body.sessions).toEqual([]);
+  });
+});
@@ -0,0 +1,15 @@
+import os from 'os';
+import path from 'path';
+
+// Offline configuration: stub images on local disk, no Gemini key needed
+process.env.NODE_ENV = 'test';
+process.env.IMAGE_PROVIDER = 'stub';
+process.env.LOCAL_IMAGE_DIR = path.join(os.tmpdir(), `roopvana-test-images-${process.pid}`);
+process.env.CREDIT_RESET_TIMEZONE = 'Asia/Kolkata';
+process.env.CREDIT_RESET_HOUR = '0';
+process.env.PAYMENT_WEBHOOK_SECRET = 'test-webhook-secret';
+process.env.GEMINI_RETRY_ATTEMPTS = '1';
+process.env.ADMIN_EMAILS = 'admin@example.com';
+// Room for every test's stub generations within one minute's rate budget
+process.env.GEMINI_IMAGE_RPM = '1000';
+process.env.GEMINI_IMAGE_RPD = '100000';
@@ -0,0 +1,80 @@
+import request from 'supertest';
+import generateRoutes from '../src/routes/generate';
+import geminiService from '../src/services/gemini';
+import { authHeader, createApp } from './helpers/app';
+import { db } from './helpers/fakeFirebaseAdmin';
+import { pngDataUrl } from './helpers/images';
+import { ledgerTotal, seedUser, usage } from './helpers/users';
+
+const app = createApp({ '/api': generateRoutes });
+
+const garment = (label?: string) => ({ imageData: pngDataUrl(), label });
+
+const tryOn = (body: object) =>
+  request(app)
+    .post('/api/generate/try-on')
+    .set(authHeader('u1'))
+    .send({ personImage: pngDataUrl(), garments: [garment('saree')], ...body });
+
+describe('POST /api/generate/try-on', () => {
+  beforeEach(() => {
+    db.clear();
+    seedUser('u1', { credits: 5 });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('charges the first garment and each extra one', async () => {
+    jest.spyOn(geminiService, 'detectPerson').mockResolvedValue(true);
+    const render = jest.spyOn(geminiService, 'generateTryOn');
+
+    const res = await tryOn({ garments: [garment('blouse'), garment(' saree '), garment()], instruction: 'festive look' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ credits: 2, creditsCharged: 3 });
+    expect(render).toHaveBeenCalledWith(
+      expect.any(String),
+      [expect.objectContaining({ label: 'blouse' }), expect.objectContaining({ label: 'saree' }), { imageData: expect.any(String) }],
+      'festive look'
+    );
+    expect(usage('u1')).toMatchObject({ credits: 2, heldCredits: 0, totalGenerations: 1 });
+    expect(ledgerTotal('u1')).toBe(2);
+  });
+
+  it('refunds a photo with no person in it', async () => {
+    jest.spyOn(geminiService, 'detectPerson').mockResolvedValue(false);
+    const render = jest.spyOn(geminiService, 'generateTryOn');
+
+    const res = await tryOn({});
+
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe('NO_PERSON_DETECTED');
+    expect(render).not.toHaveBeenCalled();
+    expect(usage('u1')).toMatchObject({ credits: 5, heldCredits: 0 });
+  });
+
+  it('refunds a try-on that fails', async () => {
+    jest.spyOn(geminiService, 'detectPerson').mockResolvedValue(true);
+
+    const res = await tryOn({ instruction: '[stub:fail]' });
+
+    expect(res.status).toBe(502);
+    expect(usage('u1')).toMatchObject({ credits: 5, heldCredits: 0, totalGenerations: 0 });
+    expect(ledgerTotal('u1')).toBe(5);
+  });
+
+  it.each([
+    ['no garments', { garments: [] }],
+    ['more than four garments', { garments: Array.from({ length: 5 }, () => garment()) }],
+    ['a garment without an image', { garments: [{ label: 'saree' }] }],
+    ['a missing person photo', { personImage: undefined }],
+  ])('refuses %s without charging', async (_case, body) => {
+    const detect = jest.spyOn(geminiService, 'detectPerson');
+
+    const res = await tryOn(body);
+
+    expect(res.status).toBe(400);
+    expect(detect).not.toHaveBeenCalled();
+    expect(usage('u1')).toMatchObject({ credits: 5, heldCredits: 0 });
+  });
+});